@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { issueAccessChallenge } from "@/lib/access-session";
+import { toPublicKey } from "@/lib/rpc";
+
+export const runtime = "nodejs";
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const body = (await request.json().catch(() => null)) as { wallet?: unknown } | null;
+  const wallet = typeof body?.wallet === "string" ? body.wallet.trim() : "";
+
+  try {
+    toPublicKey(wallet);
+  } catch {
+    return NextResponse.json({ error: "Invalid wallet address" }, { status: 400 });
+  }
+
+  try {
+    const { challenge, token, message } = await issueAccessChallenge(wallet);
+
+    return NextResponse.json(
+      {
+        challenge: token,
+        message,
+        expiresAt: challenge.expiresAt
+      },
+      {
+        headers: {
+          "Cache-Control": "no-store"
+        }
+      }
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to issue access challenge";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
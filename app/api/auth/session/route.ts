@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ACCESS_SESSION_COOKIE, readAccessSession } from "@/lib/access-session";
+import { appConfig } from "@/lib/config";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  if (!appConfig.accessGateEnabled) {
+    return NextResponse.json({ gateEnabled: false, wallet: null, expiresAt: null });
+  }
+
+  try {
+    const session = await readAccessSession(request.cookies.get(ACCESS_SESSION_COOKIE)?.value);
+    if (!session) {
+      return NextResponse.json({ error: "No active access session" }, { status: 401 });
+    }
+
+    return NextResponse.json(
+      {
+        gateEnabled: true,
+        wallet: session.wallet,
+        expiresAt: session.expiresAt
+      },
+      {
+        headers: {
+          "Cache-Control": "no-store"
+        }
+      }
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to read access session";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function DELETE(): Promise<NextResponse> {
+  const response = NextResponse.json({ ok: true });
+  response.cookies.delete(ACCESS_SESSION_COOKIE);
+
+  return response;
+}
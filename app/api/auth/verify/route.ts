@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  ACCESS_SESSION_COOKIE,
+  buildAccessMessage,
+  issueAccessSession,
+  readAccessChallenge
+} from "@/lib/access-session";
+import { BB_MIN_HOLDING, BB_TOKEN_MINT } from "@/lib/bb-access";
+import { fetchWalletTokenBalance, toPublicKey } from "@/lib/rpc";
+import { verifyWalletSignature } from "@/lib/wallet-signature";
+
+export const runtime = "nodejs";
+
+// Nonces already exchanged for a session, kept until their challenge would have expired anyway.
+const usedNonces = new Map<string, number>();
+
+const consumeNonce = (nonce: string, expiresAt: number): boolean => {
+  const now = Date.now();
+  for (const [key, expiry] of usedNonces) {
+    if (expiry <= now) {
+      usedNonces.delete(key);
+    }
+  }
+
+  if (usedNonces.has(nonce)) {
+    return false;
+  }
+
+  usedNonces.set(nonce, expiresAt);
+  return true;
+};
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const body = (await request.json().catch(() => null)) as {
+    wallet?: unknown;
+    challenge?: unknown;
+    signature?: unknown;
+  } | null;
+
+  const wallet = typeof body?.wallet === "string" ? body.wallet : "";
+  const challengeToken = typeof body?.challenge === "string" ? body.challenge : "";
+  const signature = typeof body?.signature === "string" ? Buffer.from(body.signature, "base64") : null;
+
+  if (!wallet || !challengeToken || !signature) {
+    return NextResponse.json({ error: "Missing wallet, challenge or signature" }, { status: 400 });
+  }
+
+  try {
+    const challenge = await readAccessChallenge(challengeToken);
+    if (!challenge || challenge.wallet !== wallet) {
+      return NextResponse.json({ error: "Access challenge is invalid or expired" }, { status: 401 });
+    }
+
+    if (!verifyWalletSignature(wallet, buildAccessMessage(challenge), signature)) {
+      return NextResponse.json({ error: "Wallet signature did not verify" }, { status: 401 });
+    }
+
+    if (!consumeNonce(challenge.nonce, challenge.expiresAt)) {
+      return NextResponse.json({ error: "Access challenge was already used" }, { status: 401 });
+    }
+
+    const balance = await fetchWalletTokenBalance(toPublicKey(wallet), toPublicKey(BB_TOKEN_MINT));
+    if (balance < BB_MIN_HOLDING) {
+      return NextResponse.json(
+        {
+          error: "Wallet does not hold enough $BB",
+          wallet,
+          balance
+        },
+        { status: 403 }
+      );
+    }
+
+    const { session, token } = await issueAccessSession(wallet);
+    const response = NextResponse.json(
+      {
+        wallet,
+        balance,
+        expiresAt: session.expiresAt
+      },
+      {
+        headers: {
+          "Cache-Control": "no-store"
+        }
+      }
+    );
+
+    response.cookies.set(ACCESS_SESSION_COOKIE, token, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      expires: new Date(session.expiresAt)
+    });
+
+    return response;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to verify wallet access";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
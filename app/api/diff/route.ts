@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseLimitParam } from "@/lib/config";
+import { buildSnapshot } from "@/lib/snapshot";
+import { setCachedSnapshot } from "@/lib/snapshot-cache";
+import { diffSnapshots, holderNodes } from "@/lib/snapshot-diff";
+import { getSnapshotStore, type StoredSnapshot } from "@/lib/snapshot-store";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const fromId = request.nextUrl.searchParams.get("from");
+  const toId = request.nextUrl.searchParams.get("to");
+
+  if (!fromId) {
+    return NextResponse.json({ error: "Missing from query parameter" }, { status: 400 });
+  }
+
+  const store = getSnapshotStore();
+
+  try {
+    const base = await store.get(fromId);
+    if (!base) {
+      return NextResponse.json({ error: "Base snapshot not found" }, { status: 404 });
+    }
+
+    let target: StoredSnapshot | null;
+    if (toId) {
+      target = await store.get(toId);
+      if (!target) {
+        return NextResponse.json({ error: "Target snapshot not found" }, { status: 404 });
+      }
+    } else {
+      // No target given: build a fresh snapshot with the base snapshot's options and keep it in history.
+      const snapshot = await buildSnapshot(base.mint, base.options);
+      const summary = await setCachedSnapshot(base.options, snapshot);
+      target = { ...summary, snapshot };
+    }
+
+    if (base.mint !== target.mint) {
+      return NextResponse.json({ error: "Snapshots belong to different mints" }, { status: 400 });
+    }
+
+    // Deltas run from the older snapshot to the newer one, whichever order the ids were given in.
+    const [from, to] = base.createdAt <= target.createdAt ? [base, target] : [target, base];
+
+    const topN = parseLimitParam(
+      request.nextUrl.searchParams.get("topN"),
+      Math.min(holderNodes(from.snapshot).length, holderNodes(to.snapshot).length),
+      1,
+      300
+    );
+
+    return NextResponse.json(
+      {
+        fromId: from.id,
+        toId: to.id,
+        diff: diffSnapshots(from.snapshot, to.snapshot, topN)
+      },
+      {
+        headers: {
+          "Cache-Control": "no-store"
+        }
+      }
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to diff snapshots";
+    return NextResponse.json(
+      {
+        error: message
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseLimitParam } from "@/lib/config";
+import { getHolderListPage } from "@/lib/holders";
+import { isValidPublicKey } from "@/lib/rpc";
+
+const parseMinBalance = (value: string | null): number => {
+  const parsed = Number.parseFloat(value ?? "");
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+};
+
+const isTruthy = (value: string | null): boolean => {
+  if (!value) {
+    return false;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  return normalized === "1" || normalized === "true" || normalized === "yes";
+};
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const mint = request.nextUrl.searchParams.get("mint");
+
+  if (!mint) {
+    return NextResponse.json({ error: "Missing mint query parameter" }, { status: 400 });
+  }
+
+  if (!isValidPublicKey(mint)) {
+    return NextResponse.json({ error: "Invalid mint address" }, { status: 400 });
+  }
+
+  try {
+    const page = await getHolderListPage(mint, {
+      offset: parseLimitParam(request.nextUrl.searchParams.get("offset"), 0, 0, Number.MAX_SAFE_INTEGER),
+      // 0 returns only the counts and the histogram.
+      limit: parseLimitParam(request.nextUrl.searchParams.get("limit"), 100, 0, 1000),
+      minBalance: parseMinBalance(request.nextUrl.searchParams.get("minBalance")),
+      refresh: isTruthy(request.nextUrl.searchParams.get("refresh"))
+    });
+
+    return NextResponse.json(page, {
+      headers: {
+        "Cache-Control": "no-store"
+      }
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load holders";
+
+    return NextResponse.json(
+      {
+        error: message
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { appConfig, parseLimitParam } from "@/lib/config";
 import { subscribeToLiveSnapshots } from "@/lib/live";
+import { parseSnapshotOptionsQuery } from "@/lib/snapshot";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -12,20 +13,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
   }
 
   const options = {
-    holderLimit: parseLimitParam(request.nextUrl.searchParams.get("n"), appConfig.holderLimit, 20, 300),
-    edgeWalletLimit: parseLimitParam(
-      request.nextUrl.searchParams.get("edgeWallets"),
-      appConfig.edgeWalletLimit,
-      5,
-      80
-    ),
-    txLimit: parseLimitParam(request.nextUrl.searchParams.get("txLimit"), appConfig.txLimit, 20, 400),
-    maxSignatures: parseLimitParam(
-      request.nextUrl.searchParams.get("maxSignatures"),
-      appConfig.maxSignatures,
-      100,
-      5000
-    ),
+    ...parseSnapshotOptionsQuery(request.nextUrl.searchParams),
     pollIntervalMs: parseLimitParam(
       request.nextUrl.searchParams.get("pollIntervalMs"),
       appConfig.livePollIntervalMs,
@@ -40,30 +28,42 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     )
   };
 
+  // EventSource sends Last-Event-ID on its own reconnects; clients that reconnect manually pass it in the query.
+  const lastEventId =
+    request.headers.get("last-event-id") ?? request.nextUrl.searchParams.get("lastEventId");
+
   const encoder = new TextEncoder();
   let unsubscribe: (() => void) | null = null;
   let heartbeat: NodeJS.Timeout | null = null;
 
   const stream = new ReadableStream<Uint8Array>({
     async start(controller) {
-      const send = (event: string, payload: unknown): void => {
-        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`));
+      const send = (event: string, payload: unknown, id?: string): void => {
+        const idLine = id ? `id: ${id}\n` : "";
+        controller.enqueue(encoder.encode(`${idLine}event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`));
       };
 
       send("ready", {
         mint,
-        pollIntervalMs: options.pollIntervalMs
+        pollIntervalMs: options.pollIntervalMs,
+        heartbeatMs: appConfig.liveHeartbeatMs
       });
 
       unsubscribe = await subscribeToLiveSnapshots(
         mint,
         options,
-        (snapshot) => {
-          send("snapshot", snapshot);
+        {
+          onSnapshot: (snapshot, eventId) => {
+            send("snapshot", snapshot, eventId);
+          },
+          onPatch: (patch, eventId) => {
+            send("patch", patch, eventId);
+          },
+          onError: (error) => {
+            send("snapshot_error", { message: error.message });
+          }
         },
-        (error) => {
-          send("snapshot_error", { message: error.message });
-        }
+        lastEventId
       );
 
       heartbeat = setInterval(() => {
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { buildRiskReport } from "@/lib/risk";
+import { fetchMintMetadata, isValidPublicKey, toPublicKey } from "@/lib/rpc";
+import { buildSnapshot, parseSnapshotOptionsQuery } from "@/lib/snapshot";
+import { getCachedSnapshot, setCachedSnapshot } from "@/lib/snapshot-cache";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const mint = request.nextUrl.searchParams.get("mint");
+
+  if (!mint) {
+    return NextResponse.json({ error: "Missing mint query parameter" }, { status: 400 });
+  }
+
+  if (!isValidPublicKey(mint)) {
+    return NextResponse.json({ error: "Invalid mint address" }, { status: 400 });
+  }
+
+  const options = parseSnapshotOptionsQuery(request.nextUrl.searchParams);
+
+  try {
+    // Authorities are read fresh, since revoking them is exactly what a holder wants to see; the holder factors reuse
+    // the cached snapshot for the same options.
+    const mintMetadata = await fetchMintMetadata(toPublicKey(mint));
+
+    let snapshot = (await getCachedSnapshot(mint, options))?.snapshot;
+    if (!snapshot) {
+      snapshot = await buildSnapshot(mint, options);
+      await setCachedSnapshot(options, snapshot);
+    }
+
+    return NextResponse.json(buildRiskReport(snapshot, mintMetadata.security), {
+      headers: {
+        "Cache-Control": "no-store"
+      }
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to build risk report";
+
+    return NextResponse.json(
+      {
+        error: message
+      },
+      { status: 500 }
+    );
+  }
+}
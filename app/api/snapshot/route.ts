@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { appConfig, parseLimitParam } from "@/lib/config";
-import { buildSnapshot, normalizeSnapshotOptions } from "@/lib/snapshot";
-import { buildSnapshotCacheKey, getCachedSnapshot, setCachedSnapshot } from "@/lib/snapshot-cache";
+import { isValidPublicKey } from "@/lib/rpc";
+import { buildSnapshot, parseSnapshotOptionsQuery } from "@/lib/snapshot";
+import { getCachedSnapshot, getLastGoodSnapshot, setCachedSnapshot } from "@/lib/snapshot-cache";
 
 const isTruthy = (value: string | null): boolean => {
   if (!value) {
@@ -19,48 +19,69 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     return NextResponse.json({ error: "Missing mint query parameter" }, { status: 400 });
   }
 
-  const options = normalizeSnapshotOptions({
-    holderLimit: parseLimitParam(request.nextUrl.searchParams.get("n"), appConfig.holderLimit, 20, 300),
-    edgeWalletLimit: parseLimitParam(
-      request.nextUrl.searchParams.get("edgeWallets"),
-      appConfig.edgeWalletLimit,
-      5,
-      80
-    ),
-    txLimit: parseLimitParam(request.nextUrl.searchParams.get("txLimit"), appConfig.txLimit, 20, 400),
-    maxSignatures: parseLimitParam(
-      request.nextUrl.searchParams.get("maxSignatures"),
-      appConfig.maxSignatures,
-      100,
-      5000
-    )
-  });
+  if (!isValidPublicKey(mint)) {
+    return NextResponse.json({ error: "Invalid mint address" }, { status: 400 });
+  }
+
+  const options = parseSnapshotOptionsQuery(request.nextUrl.searchParams);
 
   const forceRefresh = isTruthy(request.nextUrl.searchParams.get("refresh"));
-  const cacheKey = buildSnapshotCacheKey(mint, options);
 
   try {
     if (!forceRefresh) {
-      const cached = getCachedSnapshot(cacheKey);
+      const cached = await getCachedSnapshot(mint, options);
       if (cached) {
-        return NextResponse.json(cached, {
+        return NextResponse.json(cached.snapshot, {
           headers: {
-            "Cache-Control": "no-store"
+            "Cache-Control": "no-store",
+            "X-Snapshot-Id": cached.id,
+            "X-Snapshot-Source": "cache"
           }
         });
       }
     }
 
     const snapshot = await buildSnapshot(mint, options);
-    setCachedSnapshot(cacheKey, snapshot);
 
-    return NextResponse.json(snapshot, {
-      headers: {
-        "Cache-Control": "no-store"
-      }
-    });
+    // A failed save must not cost the client the snapshot that was just built, so it is served without an id.
+    try {
+      const stored = await setCachedSnapshot(options, snapshot);
+
+      return NextResponse.json(snapshot, {
+        headers: {
+          "Cache-Control": "no-store",
+          "X-Snapshot-Id": stored.id,
+          "X-Snapshot-Source": "build"
+        }
+      });
+    } catch (saveError) {
+      const saveMessage = saveError instanceof Error ? saveError.message : "Failed to save snapshot";
+      console.error(`Failed to save snapshot for ${mint}: ${saveMessage}`);
+
+      return NextResponse.json(snapshot, {
+        headers: {
+          "Cache-Control": "no-store",
+          "X-Snapshot-Source": "build",
+          "X-Snapshot-Save-Error": encodeURIComponent(saveMessage)
+        }
+      });
+    }
   } catch (error) {
     const message = error instanceof Error ? error.message : "Failed to build snapshot";
+
+    // Serve the last good snapshot when a rebuild fails, flagged as stale so clients can tell.
+    const lastGood = await getLastGoodSnapshot(mint, options).catch(() => null);
+    if (lastGood) {
+      return NextResponse.json(lastGood.snapshot, {
+        headers: {
+          "Cache-Control": "no-store",
+          "X-Snapshot-Id": lastGood.id,
+          "X-Snapshot-Source": "stale",
+          "X-Snapshot-Error": encodeURIComponent(message)
+        }
+      });
+    }
+
     return NextResponse.json(
       {
         error: message
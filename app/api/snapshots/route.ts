@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseLimitParam } from "@/lib/config";
+import { getSnapshotStore } from "@/lib/snapshot-store";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const id = request.nextUrl.searchParams.get("id");
+  const mint = request.nextUrl.searchParams.get("mint");
+  const store = getSnapshotStore();
+
+  try {
+    if (id) {
+      const stored = await store.get(id);
+      if (!stored) {
+        return NextResponse.json({ error: "Snapshot not found" }, { status: 404 });
+      }
+
+      return NextResponse.json(stored, {
+        headers: {
+          "Cache-Control": "no-store"
+        }
+      });
+    }
+
+    if (!mint) {
+      return NextResponse.json({ error: "Missing mint or id query parameter" }, { status: 400 });
+    }
+
+    const limit = parseLimitParam(request.nextUrl.searchParams.get("limit"), 50, 1, 500);
+    const snapshots = await store.list(mint, limit);
+
+    return NextResponse.json(
+      {
+        mint,
+        snapshots
+      },
+      {
+        headers: {
+          "Cache-Control": "no-store"
+        }
+      }
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to read snapshot history";
+    return NextResponse.json(
+      {
+        error: message
+      },
+      { status: 500 }
+    );
+  }
+}
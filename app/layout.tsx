@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import { AccessGate } from "@/components/AccessGate";
+import { appConfig } from "@/lib/config";
 import "./globals.css";
 
 export const metadata: Metadata = {
@@ -12,8 +13,6 @@ export const metadata: Metadata = {
   }
 };
 
-const isAccessGateEnabled = process.env.ENABLE_BB_ACCESS_GATE !== "false";
-
 export default function RootLayout({
   children
 }: Readonly<{
@@ -21,7 +20,7 @@ export default function RootLayout({
 }>): JSX.Element {
   return (
     <html lang="en">
-      <body>{isAccessGateEnabled ? <AccessGate>{children}</AccessGate> : children}</body>
+      <body>{appConfig.accessGateEnabled ? <AccessGate>{children}</AccessGate> : children}</body>
     </html>
   );
 }
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ACCESS_SESSION_COOKIE, readAccessSession } from "@/lib/access-session";
+import { appConfig } from "@/lib/config";
+
+export async function middleware(request: NextRequest): Promise<NextResponse> {
+  if (!appConfig.accessGateEnabled) {
+    return NextResponse.next();
+  }
+
+  try {
+    const session = await readAccessSession(request.cookies.get(ACCESS_SESSION_COOKIE)?.value);
+    if (!session) {
+      return NextResponse.json({ error: "Holder access session required" }, { status: 401 });
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to verify access session";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  // Auth routes issue the session, so they stay reachable without one.
+  matcher: ["/api/((?!auth/).*)"]
+};
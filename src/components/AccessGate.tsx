@@ -1,32 +1,9 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useState } from "react";
-import { Connection, PublicKey } from "@solana/web3.js";
-import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { PublicKey } from "@solana/web3.js";
 import { BB_MIN_HOLDING, BB_TOKEN_LINK, BB_TOKEN_MINT } from "@/lib/bb-access";
-
-interface WalletProvider {
-  isConnected?: boolean;
-  isBackpack?: boolean;
-  name?: string;
-  providers?: WalletProvider[];
-  publicKey?: PublicKey;
-  connect: () => Promise<{ publicKey?: PublicKey } | void>;
-  disconnect?: () => Promise<void>;
-  on?: (event: string, handler: (...args: unknown[]) => void) => void;
-  off?: (event: string, handler: (...args: unknown[]) => void) => void;
-}
-
-declare global {
-  interface Window {
-    solana?: WalletProvider;
-    backpack?: {
-      solana?: WalletProvider;
-    };
-  }
-}
-
-const RPC_URL = process.env.NEXT_PUBLIC_GORBAGANA_RPC_URL ?? "https://rpc.gorbagana.wtf/";
+import { discoverWallets, readLastWalletId, rememberWalletId, type GateWallet } from "@/lib/wallet-discovery";
 
 const formatNumber = (value: number, maxFractionDigits = 2): string => {
   return value.toLocaleString(undefined, { maximumFractionDigits: maxFractionDigits });
@@ -40,102 +17,87 @@ const shortenAddress = (value: string): string => {
   return `${value.slice(0, 6)}...${value.slice(-6)}`;
 };
 
-const isBackpackProvider = (provider: WalletProvider | null | undefined): provider is WalletProvider => {
-  if (!provider) {
-    return false;
-  }
-
-  if (provider.isBackpack) {
-    return true;
-  }
-
-  return provider.name?.toLowerCase() === "backpack";
-};
-
-const getBackpackProvider = (): WalletProvider | null => {
-  if (typeof window === "undefined") {
-    return null;
-  }
-
-  if (isBackpackProvider(window.backpack?.solana)) {
-    return window.backpack?.solana ?? null;
-  }
-
-  const topLevel = window.solana;
-  if (!topLevel) {
-    return null;
-  }
+interface AccessSessionResponse {
+  gateEnabled?: boolean;
+  wallet?: string | null;
+  balance?: number;
+  error?: string;
+}
 
-  if (Array.isArray(topLevel.providers)) {
-    const backpack = topLevel.providers.find((provider) => isBackpackProvider(provider));
-    if (backpack) {
-      return backpack;
-    }
+const encodeBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
   }
 
-  return isBackpackProvider(topLevel) ? topLevel : null;
+  return btoa(binary);
 };
 
 export function AccessGate({ children }: { children: React.ReactNode }): JSX.Element {
+  const [wallets, setWallets] = useState<GateWallet[]>([]);
+  const [selectedWalletId, setSelectedWalletId] = useState<string | null>(null);
   const [walletAddress, setWalletAddress] = useState<string | null>(null);
   const [bbBalance, setBbBalance] = useState<number | null>(null);
   const [isChecking, setIsChecking] = useState(false);
   const [accessGranted, setAccessGranted] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const connection = useMemo(() => new Connection(RPC_URL, "confirmed"), []);
-
-  const fetchBbBalance = useCallback(
-    async (wallet: PublicKey): Promise<number> => {
-      let total = 0;
-
-      for (const programId of [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID]) {
-        const response = await connection.getParsedTokenAccountsByOwner(wallet, { programId }, "confirmed");
+  // Wallet Standard wallets report an account change from inside connect(), which connectAndCheck already signs for.
+  const isConnectingRef = useRef(false);
 
-        for (const account of response.value) {
-          const parsedData = account.account.data;
-          if (!parsedData || typeof parsedData !== "object" || !("parsed" in parsedData)) {
-            continue;
-          }
+  const selectedWallet = useMemo(() => {
+    return wallets.find((wallet) => wallet.id === selectedWalletId) ?? null;
+  }, [selectedWalletId, wallets]);
 
-          const parsed = parsedData.parsed as { info?: { mint?: string; tokenAmount?: { uiAmount?: number; uiAmountString?: string } } };
-          if (parsed.info?.mint !== BB_TOKEN_MINT) {
-            continue;
-          }
-
-          const amountString = parsed.info.tokenAmount?.uiAmountString;
-          if (typeof amountString === "string") {
-            total += Number.parseFloat(amountString);
-            continue;
-          }
+  const signIn = useCallback(async (wallet: GateWallet, publicKey: PublicKey): Promise<void> => {
+    setIsChecking(true);
+    setError(null);
 
-          total += parsed.info.tokenAmount?.uiAmount ?? 0;
-        }
+    try {
+      const nonceResponse = await fetch("/api/auth/nonce", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ wallet: publicKey.toBase58() })
+      });
+      const noncePayload = (await nonceResponse.json()) as { challenge?: string; message?: string; error?: string };
+      if (!nonceResponse.ok || !noncePayload.challenge || !noncePayload.message) {
+        throw new Error(noncePayload.error ?? "Failed to request access challenge");
       }
 
-      return total;
-    },
-    [connection]
-  );
-
-  const evaluateAccess = useCallback(
-    async (wallet: PublicKey): Promise<void> => {
-      setIsChecking(true);
-      setError(null);
+      const signature = await wallet.signMessage(new TextEncoder().encode(noncePayload.message));
+
+      const verifyResponse = await fetch("/api/auth/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          wallet: publicKey.toBase58(),
+          challenge: noncePayload.challenge,
+          signature: encodeBase64(signature)
+        })
+      });
+      const verifyPayload = (await verifyResponse.json()) as AccessSessionResponse;
+
+      if (typeof verifyPayload.balance === "number") {
+        setBbBalance(verifyPayload.balance);
+      }
 
-      try {
-        const totalBb = await fetchBbBalance(wallet);
-        setBbBalance(totalBb);
-        setAccessGranted(totalBb >= BB_MIN_HOLDING);
-      } catch (accessError) {
+      if (verifyResponse.status === 403) {
         setAccessGranted(false);
-        const message = accessError instanceof Error ? accessError.message : "Failed to verify BB balance";
-        setError(message);
-      } finally {
-        setIsChecking(false);
+        return;
       }
-    },
-    [fetchBbBalance]
-  );
+
+      if (!verifyResponse.ok) {
+        throw new Error(verifyPayload.error ?? "Failed to verify BB balance");
+      }
+
+      setAccessGranted(true);
+    } catch (accessError) {
+      setAccessGranted(false);
+      const message = accessError instanceof Error ? accessError.message : "Failed to verify BB balance";
+      setError(message);
+    } finally {
+      setIsChecking(false);
+    }
+  }, []);
 
   const resetState = useCallback(() => {
     setWalletAddress(null);
@@ -146,79 +108,141 @@ export function AccessGate({ children }: { children: React.ReactNode }): JSX.Ele
   }, []);
 
   const connectAndCheck = useCallback(async () => {
-    const provider = getBackpackProvider();
-    if (!provider) {
-      setError("Backpack wallet not found. Install Backpack and use it for this site.");
+    if (!selectedWallet) {
+      setError("No Solana wallet found. Install Backpack, Phantom, Solflare or another Wallet Standard wallet.");
       return;
     }
 
     setError(null);
     setIsChecking(true);
+    isConnectingRef.current = true;
 
     try {
-      const result = await provider.connect();
-      const connected = result?.publicKey ?? provider.publicKey;
-      if (!connected) {
-        throw new Error("Wallet connected, but no public key was returned.");
-      }
+      const connected = await selectedWallet.connect();
+      rememberWalletId(selectedWallet.id);
 
       setWalletAddress(connected.toBase58());
-      await evaluateAccess(connected);
+      await signIn(selectedWallet, connected);
     } catch (connectError) {
       setIsChecking(false);
       const message = connectError instanceof Error ? connectError.message : "Failed to connect wallet";
       setError(message);
       setAccessGranted(false);
+    } finally {
+      isConnectingRef.current = false;
     }
-  }, [evaluateAccess]);
+  }, [selectedWallet, signIn]);
 
   const disconnectWallet = useCallback(async () => {
-    const provider = getBackpackProvider();
-    if (provider?.disconnect) {
+    if (selectedWallet) {
       try {
-        await provider.disconnect();
+        await selectedWallet.disconnect();
       } catch {
         // Ignore provider disconnect errors and reset local gate state.
       }
     }
 
+    await fetch("/api/auth/session", { method: "DELETE" }).catch(() => undefined);
     resetState();
-  }, [resetState]);
+  }, [resetState, selectedWallet]);
+
+  const selectWallet = useCallback(
+    (walletId: string) => {
+      if (walletId === selectedWalletId) {
+        return;
+      }
+
+      setSelectedWalletId(walletId);
+      rememberWalletId(walletId);
+      resetState();
+    },
+    [resetState, selectedWalletId]
+  );
+
+  useEffect(() => {
+    return discoverWallets((nextWallets) => {
+      setWallets(nextWallets);
+      setSelectedWalletId((current) => {
+        if (current && nextWallets.some((wallet) => wallet.id === current)) {
+          return current;
+        }
+
+        const lastWalletId = readLastWalletId();
+        const remembered = nextWallets.find((wallet) => wallet.id === lastWalletId);
+        return remembered?.id ?? nextWallets[0]?.id ?? null;
+      });
+    });
+  }, []);
 
   useEffect(() => {
-    const provider = getBackpackProvider();
-    if (!provider) {
+    let cancelled = false;
+
+    const restoreSession = async (): Promise<void> => {
+      try {
+        const response = await fetch("/api/auth/session", { cache: "no-store" });
+        if (!response.ok || cancelled) {
+          return;
+        }
+
+        const payload = (await response.json()) as AccessSessionResponse;
+        if (cancelled) {
+          return;
+        }
+
+        if (payload.wallet) {
+          setWalletAddress(payload.wallet);
+        }
+
+        setAccessGranted(true);
+      } catch {
+        // No session yet; the user signs in with the connect button.
+      }
+    };
+
+    void restoreSession();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!selectedWallet) {
       return;
     }
 
-    if (provider.isConnected && provider.publicKey) {
-      setWalletAddress(provider.publicKey.toBase58());
-      void evaluateAccess(provider.publicKey);
+    const connectedKey = selectedWallet.getConnectedKey();
+    if (connectedKey) {
+      setWalletAddress((current) => current ?? connectedKey.toBase58());
     }
 
-    const handleAccountChanged = (...args: unknown[]): void => {
-      const next = args[0];
-      if (!(next instanceof PublicKey)) {
+    // Only a real switch away from the known account asks for a new signature.
+    const handleAccountChanged = (next: PublicKey | null): void => {
+      if (isConnectingRef.current) {
+        return;
+      }
+
+      if (!next) {
         resetState();
         return;
       }
 
+      if (!walletAddress || next.toBase58() === walletAddress) {
+        return;
+      }
+
       setWalletAddress(next.toBase58());
-      void evaluateAccess(next);
+      setAccessGranted(false);
+      void signIn(selectedWallet, next);
     };
 
     const handleDisconnect = (): void => {
+      void fetch("/api/auth/session", { method: "DELETE" }).catch(() => undefined);
       resetState();
     };
 
-    provider.on?.("accountChanged", handleAccountChanged);
-    provider.on?.("disconnect", handleDisconnect);
-
-    return () => {
-      provider.off?.("accountChanged", handleAccountChanged);
-      provider.off?.("disconnect", handleDisconnect);
-    };
-  }, [evaluateAccess, resetState]);
+    return selectedWallet.subscribe(handleAccountChanged, handleDisconnect);
+  }, [resetState, selectedWallet, signIn, walletAddress]);
 
   if (accessGranted) {
     return <>{children}</>;
@@ -233,8 +257,8 @@ export function AccessGate({ children }: { children: React.ReactNode }): JSX.Ele
         <p className="brandKicker">HOLDER ACCESS ONLY</p>
         <h1>BB Tools</h1>
         <p className="heroSubtext">
-          Connect your Backpack wallet holding at least <strong>{formatNumber(BB_MIN_HOLDING, 0)} $BB</strong> to
-          access the app.
+          Connect a Solana wallet holding at least <strong>{formatNumber(BB_MIN_HOLDING, 0)} $BB</strong> to access the
+          app. You will be asked to sign a message to prove wallet ownership.
         </p>
         <p className="detailSub">
           Token:{" "}
@@ -243,6 +267,27 @@ export function AccessGate({ children }: { children: React.ReactNode }): JSX.Ele
           </a>
         </p>
 
+        {wallets.length > 0 ? (
+          <div className="walletPicker" role="radiogroup" aria-label="Choose wallet">
+            {wallets.map((wallet) => (
+              <button
+                key={wallet.id}
+                type="button"
+                role="radio"
+                aria-checked={wallet.id === selectedWalletId}
+                className={`walletOption ${wallet.id === selectedWalletId ? "active" : ""}`}
+                onClick={() => selectWallet(wallet.id)}
+                disabled={isChecking}
+              >
+                {wallet.icon && <img src={wallet.icon} alt="" className="walletOptionIcon" />}
+                {wallet.name}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <p className="detailSub">No Solana wallet detected in this browser.</p>
+        )}
+
         {walletAddress && (
           <p className="detailSub">
             Wallet: <span className="mono">{shortenAddress(walletAddress)}</span>
@@ -259,8 +304,12 @@ export function AccessGate({ children }: { children: React.ReactNode }): JSX.Ele
         {error && <p className="errorText">{error}</p>}
 
         <div className="accessGateActions">
-          <button onClick={() => void connectAndCheck()} disabled={isChecking}>
-            {isChecking ? "CHECKING..." : walletAddress ? "RECHECK ACCESS" : "CONNECT BACKPACK"}
+          <button onClick={() => void connectAndCheck()} disabled={isChecking || !selectedWallet}>
+            {isChecking
+              ? "CHECKING..."
+              : walletAddress
+                ? "SIGN IN AGAIN"
+                : `CONNECT ${selectedWallet?.name.toUpperCase() ?? "WALLET"}`}
           </button>
           {walletAddress && (
             <button className="accessSecondaryButton" onClick={() => void disconnectWallet()} disabled={isChecking}>
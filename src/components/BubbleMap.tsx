@@ -1,184 +1,699 @@
-import { useMemo } from "react";
-import type { SnapshotEdge, SnapshotNode } from "@/lib/types";
+import { useCallback, useEffect, useMemo, useRef, useState, type FormEvent, type PointerEvent } from "react";
+import {
+  layoutForce,
+  layoutSpiral,
+  type BubbleLayoutKind,
+  type LayoutBounds,
+  type PositionedNode
+} from "@/lib/bubble-layout";
+import { snapshotEdgeKey } from "@/lib/snapshot-diff";
+import type {
+  AddressLabelKind,
+  EdgeChangeKind,
+  NodeChangeKind,
+  SnapshotEdge,
+  SnapshotNode,
+  SupplyChangeKind
+} from "@/lib/types";
 
 const WIDTH = 1060;
 const HEIGHT = 620;
 const PADDING = 56;
-const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+// View box width limits relative to the fitted layout: 12x zoom in, 3x zoom out.
+const MIN_VIEW_FRACTION = 1 / 12;
+const MAX_ZOOM_OUT = 3;
+const DRAG_THRESHOLD_PX = 4;
 
-interface PositionedNode extends SnapshotNode {
-  x: number;
-  y: number;
-  radius: number;
-}
+const NODE_CHANGE_COLORS: Record<NodeChangeKind, string> = {
+  entered: "#38bdf8",
+  exited: "#a8a29e",
+  accumulated: "#4ade80",
+  reduced: "#f87171"
+};
+
+const EDGE_CHANGE_COLORS: Record<EdgeChangeKind, string> = {
+  added: "#4ade80",
+  updated: "#38bdf8",
+  removed: "#a8a29e"
+};
+
+// Funding links are dashed and violet so they read as "same money source" rather than token flow.
+const FUNDING_EDGE_COLOR = "#c084fc";
+const FUNDING_EDGE_WIDTH = 1.2;
+
+// Mint and burn edges, and the synthetic nodes they attach to, share one color per direction of supply change.
+const SUPPLY_COLORS: Record<SupplyChangeKind, string> = {
+  mint: "#2dd4bf",
+  burn: "#fb923c"
+};
 
 interface BubbleMapProps {
   nodes: SnapshotNode[];
   edges: SnapshotEdge[];
   minPct: number;
   minEdgeAmount: number;
+  hiddenLabelKinds?: ReadonlySet<AddressLabelKind>;
   showConnections: boolean;
+  layout?: BubbleLayoutKind;
   selectedAddress?: string | null;
   selectedClusterAddresses?: Set<string>;
   onSelectNode?: (address: string) => void;
+  nodeChanges?: Map<string, NodeChangeKind>;
+  edgeChanges?: Map<string, EdgeChangeKind>;
 }
 
-const clamp = (value: number, min: number, max: number): number => {
-  return Math.min(max, Math.max(min, value));
-};
+type HoverTarget =
+  | { kind: "node"; address: string; left: number; top: number }
+  | { kind: "edge"; key: string; left: number; top: number };
+
+interface DragState {
+  pointerX: number;
+  pointerY: number;
+  viewBox: LayoutBounds;
+  moved: boolean;
+}
 
 const shorten = (address: string): string => {
   return `${address.slice(0, 4)}...${address.slice(-4)}`;
 };
 
+const formatNumber = (value: number, maxFractionDigits = 4): string => {
+  return value.toLocaleString(undefined, { maximumFractionDigits: maxFractionDigits });
+};
+
+// Scales a view box around an anchor point given in view coordinates, keeping the zoom within limits.
+const zoomViewBox = (
+  viewBox: LayoutBounds,
+  fit: LayoutBounds,
+  factor: number,
+  anchorX: number,
+  anchorY: number
+): LayoutBounds => {
+  const width = Math.min(fit.width * MAX_ZOOM_OUT, Math.max(fit.width * MIN_VIEW_FRACTION, viewBox.width * factor));
+  const scale = width / viewBox.width;
+
+  return {
+    x: anchorX - (anchorX - viewBox.x) * scale,
+    y: anchorY - (anchorY - viewBox.y) * scale,
+    width,
+    height: viewBox.height * scale
+  };
+};
+
 export function BubbleMap({
   nodes,
   edges,
   minPct,
   minEdgeAmount,
+  hiddenLabelKinds,
   showConnections,
+  layout = "spiral",
   selectedAddress,
   selectedClusterAddresses,
-  onSelectNode
+  onSelectNode,
+  nodeChanges,
+  edgeChanges
 }: BubbleMapProps): JSX.Element {
-  const filteredNodes = useMemo(() => {
-    return nodes.filter((node) => node.pctSupply >= minPct);
-  }, [nodes, minPct]);
+  const wrapperRef = useRef<HTMLDivElement | null>(null);
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const dragRef = useRef<DragState | null>(null);
+  const pinchDistanceRef = useRef<number | null>(null);
+  const suppressClickRef = useRef(false);
 
-  const positionedNodes = useMemo<PositionedNode[]>(() => {
-    if (filteredNodes.length === 0) {
-      return [];
-    }
+  // null means "fit to the layout"; set once the user zooms, pans or focuses a wallet.
+  const [viewBox, setViewBox] = useState<LayoutBounds | null>(null);
+  const [hover, setHover] = useState<HoverTarget | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchMessage, setSearchMessage] = useState<string | null>(null);
 
-    const maxBalance = Math.max(...filteredNodes.map((node) => node.balance), 1);
+  const filteredNodes = useMemo(() => {
+    const holders = nodes.filter((node) => {
+      if (node.synthetic || (node.label && hiddenLabelKinds?.has(node.label.kind))) {
+        return false;
+      }
 
-    return filteredNodes.map((node, index) => {
-      const ratio = node.balance / maxBalance;
-      const radius = 10 + Math.sqrt(ratio) * 52;
-      const angle = index * GOLDEN_ANGLE;
-      const distance = 18 + Math.sqrt(index + 1) * 34;
+      return node.pctSupply >= minPct;
+    });
 
-      const x = clamp(WIDTH / 2 + Math.cos(angle) * distance, PADDING, WIDTH - PADDING);
-      const y = clamp(HEIGHT / 2 + Math.sin(angle) * distance, PADDING, HEIGHT - PADDING);
+    // Synthetic mint and burn nodes hold nothing, so they are shown while at least one of their holders is.
+    const visible = new Set(holders.map((node) => node.address));
+    const synthetic = nodes.filter((node) => {
+      if (!node.synthetic || (node.label && hiddenLabelKinds?.has(node.label.kind))) {
+        return false;
+      }
 
-      return {
-        ...node,
-        x,
-        y,
-        radius
-      };
+      return edges.some(
+        (edge) =>
+          (edge.from === node.address && visible.has(edge.to)) || (edge.to === node.address && visible.has(edge.from))
+      );
     });
-  }, [filteredNodes]);
 
-  const nodeByAddress = useMemo(() => {
-    return new Map(positionedNodes.map((node) => [node.address, node]));
-  }, [positionedNodes]);
+    return [...holders, ...synthetic];
+  }, [edges, nodes, minPct, hiddenLabelKinds]);
 
   const filteredEdges = useMemo(() => {
+    const visible = new Set(filteredNodes.map((node) => node.address));
+
     return edges.filter((edge) => {
-      if (edge.amountSum < minEdgeAmount) {
+      // The minimum is a token amount, which funding edges do not carry.
+      if (edge.kind !== "funding" && edge.amountSum < minEdgeAmount) {
         return false;
       }
 
-      return nodeByAddress.has(edge.from) && nodeByAddress.has(edge.to);
+      return visible.has(edge.from) && visible.has(edge.to);
     });
-  }, [edges, minEdgeAmount, nodeByAddress]);
+  }, [edges, filteredNodes, minEdgeAmount]);
+
+  // Memoized on the snapshot data only, so the same snapshot always renders the same layout.
+  const bubbleLayout = useMemo(() => {
+    const maxBalance = Math.max(...filteredNodes.map((node) => node.balance), 1);
+    const sized = filteredNodes.map((node) => ({
+      ...node,
+      radius: 10 + Math.sqrt(node.balance / maxBalance) * 52
+    }));
+    const frame = { width: WIDTH, height: HEIGHT, padding: PADDING };
+
+    return layout === "force" ? layoutForce(sized, filteredEdges, frame) : layoutSpiral(sized, frame);
+  }, [filteredEdges, filteredNodes, layout]);
+
+  const positionedNodes: PositionedNode[] = bubbleLayout.nodes;
+  const fitBounds = bubbleLayout.bounds;
+  const activeViewBox = viewBox ?? fitBounds;
+
+  const nodeByAddress = useMemo(() => {
+    return new Map(positionedNodes.map((node) => [node.address, node]));
+  }, [positionedNodes]);
+
+  const rankByAddress = useMemo(() => {
+    return new Map(nodes.map((node, index) => [node.address, index + 1]));
+  }, [nodes]);
+
+  const degreeByAddress = useMemo(() => {
+    const degrees = new Map<string, number>();
+    for (const edge of filteredEdges) {
+      degrees.set(edge.from, (degrees.get(edge.from) ?? 0) + 1);
+      degrees.set(edge.to, (degrees.get(edge.to) ?? 0) + 1);
+    }
+
+    return degrees;
+  }, [filteredEdges]);
 
   const maxEdge = useMemo(() => {
-    return Math.max(...filteredEdges.map((edge) => edge.amountSum), 1);
+    return Math.max(...filteredEdges.filter((edge) => edge.kind !== "funding").map((edge) => edge.amountSum), 1);
   }, [filteredEdges]);
 
+  useEffect(() => {
+    setViewBox(null);
+  }, [layout]);
+
+  const toViewPoint = useCallback(
+    (clientX: number, clientY: number): { x: number; y: number } | null => {
+      const rect = svgRef.current?.getBoundingClientRect();
+      if (!rect || rect.width === 0 || rect.height === 0) {
+        return null;
+      }
+
+      // The svg keeps the view box aspect ratio, so one scale covers both axes.
+      const scale = Math.max(activeViewBox.width / rect.width, activeViewBox.height / rect.height);
+      const offsetX = (rect.width * scale - activeViewBox.width) / 2;
+      const offsetY = (rect.height * scale - activeViewBox.height) / 2;
+
+      return {
+        x: activeViewBox.x + (clientX - rect.left) * scale - offsetX,
+        y: activeViewBox.y + (clientY - rect.top) * scale - offsetY
+      };
+    },
+    [activeViewBox]
+  );
+
+  const zoomAt = useCallback(
+    (factor: number, clientX: number, clientY: number) => {
+      const anchor = toViewPoint(clientX, clientY);
+      if (!anchor) {
+        return;
+      }
+
+      setViewBox(zoomViewBox(activeViewBox, fitBounds, factor, anchor.x, anchor.y));
+    },
+    [activeViewBox, fitBounds, toViewPoint]
+  );
+
+  const zoomFromCenter = (factor: number): void => {
+    const centerX = activeViewBox.x + activeViewBox.width / 2;
+    const centerY = activeViewBox.y + activeViewBox.height / 2;
+
+    setViewBox(zoomViewBox(activeViewBox, fitBounds, factor, centerX, centerY));
+  };
+
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) {
+      return;
+    }
+
+    // React registers wheel listeners as passive, so page scroll could not be prevented from JSX.
+    const handleWheel = (event: WheelEvent): void => {
+      event.preventDefault();
+      zoomAt(Math.exp(event.deltaY * 0.0015), event.clientX, event.clientY);
+    };
+
+    svg.addEventListener("wheel", handleWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", handleWheel);
+  }, [zoomAt]);
+
+  const handlePointerDown = (event: PointerEvent<SVGSVGElement>): void => {
+    pointersRef.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    suppressClickRef.current = false;
+
+    if (pointersRef.current.size === 1) {
+      dragRef.current = {
+        pointerX: event.clientX,
+        pointerY: event.clientY,
+        viewBox: activeViewBox,
+        moved: false
+      };
+    } else {
+      dragRef.current = null;
+      pinchDistanceRef.current = null;
+    }
+  };
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>): void => {
+    if (!pointersRef.current.has(event.pointerId)) {
+      return;
+    }
+
+    pointersRef.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    const pointers = [...pointersRef.current.values()];
+
+    if (pointers.length === 2) {
+      const [first, second] = pointers;
+      if (!first || !second) {
+        return;
+      }
+
+      const distance = Math.hypot(second.x - first.x, second.y - first.y);
+      const previous = pinchDistanceRef.current;
+      pinchDistanceRef.current = distance;
+      suppressClickRef.current = true;
+
+      if (previous && distance > 0) {
+        zoomAt(previous / distance, (first.x + second.x) / 2, (first.y + second.y) / 2);
+      }
+
+      return;
+    }
+
+    const drag = dragRef.current;
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!drag || !rect || rect.width === 0) {
+      return;
+    }
+
+    const deltaX = event.clientX - drag.pointerX;
+    const deltaY = event.clientY - drag.pointerY;
+    if (!drag.moved && Math.hypot(deltaX, deltaY) < DRAG_THRESHOLD_PX) {
+      return;
+    }
+
+    drag.moved = true;
+    suppressClickRef.current = true;
+    setHover(null);
+
+    const scale = Math.max(drag.viewBox.width / rect.width, drag.viewBox.height / rect.height);
+    setViewBox({
+      ...drag.viewBox,
+      x: drag.viewBox.x - deltaX * scale,
+      y: drag.viewBox.y - deltaY * scale
+    });
+  };
+
+  const handlePointerEnd = (event: PointerEvent<SVGSVGElement>): void => {
+    pointersRef.current.delete(event.pointerId);
+    pinchDistanceRef.current = null;
+
+    if (pointersRef.current.size === 0) {
+      dragRef.current = null;
+    }
+  };
+
+  const selectFromMap = (address: string): void => {
+    if (nodeByAddress.get(address)?.synthetic) {
+      return;
+    }
+
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
+
+    onSelectNode?.(address);
+  };
+
+  const focusNode = useCallback(
+    (node: PositionedNode) => {
+      const width = Math.min(fitBounds.width, Math.max(node.radius * 18, fitBounds.width / 4));
+      const height = width * (fitBounds.height / fitBounds.width);
+
+      setViewBox({ x: node.x - width / 2, y: node.y - height / 2, width, height });
+    },
+    [fitBounds]
+  );
+
+  const handleSearch = (event: FormEvent<HTMLFormElement>): void => {
+    event.preventDefault();
+
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) {
+      return;
+    }
+
+    const match =
+      positionedNodes.find((node) => node.address.toLowerCase() === query) ??
+      positionedNodes.find((node) => node.address.toLowerCase().startsWith(query)) ??
+      positionedNodes.find((node) => node.address.toLowerCase().includes(query)) ??
+      positionedNodes.find((node) => node.label?.name.toLowerCase().includes(query));
+
+    if (!match) {
+      setSearchMessage("No visible wallet matches that address or label.");
+      return;
+    }
+
+    setSearchMessage(null);
+    focusNode(match);
+    if (!match.synthetic) {
+      onSelectNode?.(match.address);
+    }
+  };
+
+  const showTooltip = (target: HoverTarget["kind"], clientX: number, clientY: number, keys: string[]): void => {
+    const rect = wrapperRef.current?.getBoundingClientRect();
+    if (!rect || dragRef.current?.moved) {
+      return;
+    }
+
+    const left = clientX - rect.left + 14;
+    const top = clientY - rect.top + 14;
+
+    if (target === "node") {
+      setHover({ kind: "node", address: keys[0] ?? "", left, top });
+      return;
+    }
+
+    setHover({ kind: "edge", key: keys[0] ?? "", left, top });
+  };
+
+  const hoveredNode = hover?.kind === "node" ? nodeByAddress.get(hover.address) : undefined;
+  const hoveredEdge =
+    hover?.kind === "edge" ? filteredEdges.find((edge) => snapshotEdgeKey(edge) === hover.key) : undefined;
   const hasSelection = Boolean(selectedAddress);
+  const searchOptions = useMemo(() => {
+    return positionedNodes.map((node) => ({ value: node.address, label: node.label?.name }));
+  }, [positionedNodes]);
 
   return (
-    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="mapCanvas" role="img" aria-label="Token holder bubble map">
-      <defs>
-        <radialGradient id="bubbleGradient" cx="45%" cy="38%" r="68%">
-          <stop offset="0%" stopColor="#fff8d2" stopOpacity="0.97" />
-          <stop offset="52%" stopColor="#facc15" stopOpacity="0.92" />
-          <stop offset="100%" stopColor="#ca8a04" stopOpacity="0.88" />
-        </radialGradient>
-      </defs>
-
-      <rect x="0" y="0" width={WIDTH} height={HEIGHT} fill="url(#mapBackground)" opacity={0} />
-
-      {showConnections &&
-        filteredEdges.map((edge) => {
-          const from = nodeByAddress.get(edge.from);
-          const to = nodeByAddress.get(edge.to);
-
-          if (!from || !to) {
-            return null;
-          }
-
-          const strokeWidth = 0.6 + (Math.log10(1 + edge.amountSum) / Math.log10(1 + maxEdge)) * 4;
-          const edgeInCluster =
-            selectedClusterAddresses &&
-            selectedClusterAddresses.has(edge.from) &&
-            selectedClusterAddresses.has(edge.to);
-          const connectedToSelected = Boolean(selectedAddress && (edge.from === selectedAddress || edge.to === selectedAddress));
-
-          const strokeOpacity = !hasSelection ? 0.34 : edgeInCluster ? 0.43 : 0.06;
+    <div className="mapViewport" ref={wrapperRef}>
+      <div className="mapToolbar">
+        <form className="mapSearch" onSubmit={handleSearch}>
+          <input
+            value={searchQuery}
+            onChange={(event) => {
+              setSearchQuery(event.target.value);
+              setSearchMessage(null);
+            }}
+            placeholder="Find wallet address or label"
+            list="bubble-map-addresses"
+            aria-label="Find wallet address or label"
+          />
+          <datalist id="bubble-map-addresses">
+            {searchOptions.map((option) => (
+              <option key={option.value} value={option.value} label={option.label} />
+            ))}
+          </datalist>
+          <button type="submit">FIND</button>
+        </form>
+        <div className="mapZoomButtons">
+          <button type="button" onClick={() => zoomFromCenter(0.8)} aria-label="Zoom in">
+            +
+          </button>
+          <button type="button" onClick={() => zoomFromCenter(1.25)} aria-label="Zoom out">
+            -
+          </button>
+          <button type="button" onClick={() => setViewBox(null)}>
+            FIT
+          </button>
+        </div>
+      </div>
+      {searchMessage && <p className="mapSearchMessage">{searchMessage}</p>}
+
+      <svg
+        ref={svgRef}
+        viewBox={`${activeViewBox.x} ${activeViewBox.y} ${activeViewBox.width} ${activeViewBox.height}`}
+        className="mapCanvas"
+        role="img"
+        aria-label="Token holder bubble map"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerEnd}
+        onPointerCancel={handlePointerEnd}
+        onPointerLeave={(event) => {
+          handlePointerEnd(event);
+          setHover(null);
+        }}
+      >
+        <defs>
+          <radialGradient id="bubbleGradient" cx="45%" cy="38%" r="68%">
+            <stop offset="0%" stopColor="#fff8d2" stopOpacity="0.97" />
+            <stop offset="52%" stopColor="#facc15" stopOpacity="0.92" />
+            <stop offset="100%" stopColor="#ca8a04" stopOpacity="0.88" />
+          </radialGradient>
+        </defs>
+
+        <rect
+          x={activeViewBox.x}
+          y={activeViewBox.y}
+          width={activeViewBox.width}
+          height={activeViewBox.height}
+          fill="url(#mapBackground)"
+          opacity={0}
+        />
+
+        {showConnections &&
+          filteredEdges.map((edge) => {
+            const from = nodeByAddress.get(edge.from);
+            const to = nodeByAddress.get(edge.to);
+
+            if (!from || !to) {
+              return null;
+            }
+
+            const edgeKey = snapshotEdgeKey(edge);
+            const isFunding = edge.kind === "funding";
+            const supplyColor = edge.kind === "mint" || edge.kind === "burn" ? SUPPLY_COLORS[edge.kind] : null;
+            const strokeWidth = isFunding
+              ? FUNDING_EDGE_WIDTH
+              : 0.6 + (Math.log10(1 + edge.amountSum) / Math.log10(1 + maxEdge)) * 4;
+            const edgeInCluster =
+              selectedClusterAddresses &&
+              selectedClusterAddresses.has(edge.from) &&
+              selectedClusterAddresses.has(edge.to);
+            const connectedToSelected = Boolean(
+              selectedAddress && (edge.from === selectedAddress || edge.to === selectedAddress)
+            );
+
+            const strokeOpacity = !hasSelection ? 0.34 : edgeInCluster ? 0.43 : 0.06;
+            const edgeChange = edgeChanges?.get(edgeKey);
+            const baseStroke = edgeChange
+              ? EDGE_CHANGE_COLORS[edgeChange]
+              : isFunding
+                ? FUNDING_EDGE_COLOR
+                : supplyColor ?? "#facc15";
+            const isHovered = hover?.kind === "edge" && hover.key === edgeKey;
+
+            return (
+              <line
+                key={edgeKey}
+                className="mapEdge"
+                x1={from.x}
+                y1={from.y}
+                x2={to.x}
+                y2={to.y}
+                stroke={connectedToSelected || isHovered ? "#fde047" : baseStroke}
+                strokeOpacity={
+                  isHovered ? 0.9 : connectedToSelected ? 0.58 : edgeChange ? Math.max(strokeOpacity, 0.5) : strokeOpacity
+                }
+                strokeWidth={connectedToSelected || isHovered ? strokeWidth + 0.6 : strokeWidth}
+                strokeDasharray={isFunding ? "5 4" : undefined}
+                onPointerEnter={(event) => showTooltip("edge", event.clientX, event.clientY, [edgeKey])}
+                onPointerMove={(event) => showTooltip("edge", event.clientX, event.clientY, [edgeKey])}
+                onPointerLeave={() => setHover(null)}
+              />
+            );
+          })}
+
+        {positionedNodes.map((node, nodeIndex) => {
+          const animationDuration = 4.8 + (nodeIndex % 7) * 0.35;
+          const animationDelay = -1 * (nodeIndex % 11) * 0.4;
+          const inSelectedCluster = selectedClusterAddresses?.has(node.address) ?? false;
+          const isSelected = selectedAddress === node.address;
+
+          const fillOpacity = !hasSelection ? 0.9 : inSelectedCluster ? 0.95 : 0.2;
+          const strokeOpacity = !hasSelection ? 0.42 : isSelected ? 0.96 : inSelectedCluster ? 0.58 : 0.12;
+          const strokeWidth = isSelected ? 2.4 : inSelectedCluster ? 1.4 : 1;
+          const nodeChange = nodeChanges?.get(node.address);
 
           return (
-            <line
-              key={`${edge.from}:${edge.to}`}
-              x1={from.x}
-              y1={from.y}
-              x2={to.x}
-              y2={to.y}
-              stroke={connectedToSelected ? "#fde047" : "#facc15"}
-              strokeOpacity={connectedToSelected ? 0.58 : strokeOpacity}
-              strokeWidth={connectedToSelected ? strokeWidth + 0.6 : strokeWidth}
+            <g
+              key={node.address}
+              className="mapNode floatingNode"
+              role="button"
+              tabIndex={0}
+              style={{
+                animationDuration: `${animationDuration}s`,
+                animationDelay: `${animationDelay}s`
+              }}
+              onClick={() => selectFromMap(node.address)}
+              onKeyDown={(event) => {
+                if (!node.synthetic && (event.key === "Enter" || event.key === " ")) {
+                  event.preventDefault();
+                  onSelectNode?.(node.address);
+                }
+              }}
+              onPointerEnter={(event) => showTooltip("node", event.clientX, event.clientY, [node.address])}
+              onPointerMove={(event) => showTooltip("node", event.clientX, event.clientY, [node.address])}
+              onPointerLeave={() => setHover(null)}
+              aria-label={node.synthetic ? node.label?.name : `Select wallet ${node.address}`}
             >
-              <title>{`${shorten(edge.from)} -> ${shorten(edge.to)} | ${edge.amountSum.toFixed(4)} (${edge.txCount} tx)`}</title>
-            </line>
+              <circle
+                cx={node.x}
+                cy={node.y}
+                r={node.radius}
+                fill={node.synthetic ? SUPPLY_COLORS[node.synthetic] : "url(#bubbleGradient)"}
+                fillOpacity={fillOpacity}
+              />
+              <circle
+                cx={node.x}
+                cy={node.y}
+                r={node.radius}
+                fill="none"
+                stroke={isSelected ? "#fef9c3" : nodeChange ? NODE_CHANGE_COLORS[nodeChange] : "#fef08a"}
+                strokeOpacity={nodeChange ? Math.max(strokeOpacity, 0.85) : strokeOpacity}
+                strokeWidth={nodeChange ? strokeWidth + 1.6 : strokeWidth}
+              />
+            </g>
           );
         })}
+      </svg>
 
-      {positionedNodes.map((node, nodeIndex) => {
-        const animationDuration = 4.8 + (nodeIndex % 7) * 0.35;
-        const animationDelay = -1 * (nodeIndex % 11) * 0.4;
-        const inSelectedCluster = selectedClusterAddresses?.has(node.address) ?? false;
-        const isSelected = selectedAddress === node.address;
-
-        const fillOpacity = !hasSelection ? 0.9 : inSelectedCluster ? 0.95 : 0.2;
-        const strokeOpacity = !hasSelection ? 0.42 : isSelected ? 0.96 : inSelectedCluster ? 0.58 : 0.12;
-        const strokeWidth = isSelected ? 2.4 : inSelectedCluster ? 1.4 : 1;
-
-        return (
-          <g
-            key={node.address}
-            className="mapNode floatingNode"
-            role="button"
-            tabIndex={0}
-            style={{
-              animationDuration: `${animationDuration}s`,
-              animationDelay: `${animationDelay}s`
-            }}
-            onClick={() => onSelectNode?.(node.address)}
-            onKeyDown={(event) => {
-              if (event.key === "Enter" || event.key === " ") {
-                event.preventDefault();
-                onSelectNode?.(node.address);
-              }
-            }}
-            aria-label={`Select wallet ${node.address}`}
-          >
-            <circle cx={node.x} cy={node.y} r={node.radius} fill="url(#bubbleGradient)" fillOpacity={fillOpacity} />
-            <circle
-              cx={node.x}
-              cy={node.y}
-              r={node.radius}
-              fill="none"
-              stroke={isSelected ? "#fef9c3" : "#fef08a"}
-              strokeOpacity={strokeOpacity}
-              strokeWidth={strokeWidth}
-            />
-            <title>{`${node.address}\nBalance: ${node.balance.toFixed(4)}\nSupply: ${node.pctSupply.toFixed(4)}%`}</title>
-          </g>
-        );
-      })}
-    </svg>
+      {hover && (hoveredNode || hoveredEdge) && (
+        <div className="mapTooltip" style={{ left: hover.left, top: hover.top }} role="tooltip">
+          {hoveredNode?.synthetic && (
+            <>
+              <p className="mapTooltipLabel">{hoveredNode.label?.name}</p>
+              <dl>
+                <dt>{hoveredNode.synthetic === "mint" ? "Minted" : "Burned"}</dt>
+                <dd>
+                  {formatNumber(
+                    filteredEdges
+                      .filter((edge) => edge.kind === hoveredNode.synthetic)
+                      .reduce((sum, edge) => sum + edge.amountSum, 0)
+                  )}
+                </dd>
+                <dt>Holders</dt>
+                <dd>{degreeByAddress.get(hoveredNode.address) ?? 0}</dd>
+              </dl>
+            </>
+          )}
+          {hoveredNode && !hoveredNode.synthetic && (
+            <>
+              {hoveredNode.label && (
+                <p className="mapTooltipLabel">
+                  {hoveredNode.label.name} <span>{hoveredNode.label.kind}</span>
+                </p>
+              )}
+              <p className="mono">{hoveredNode.address}</p>
+              <dl>
+                <dt>Rank</dt>
+                <dd>#{rankByAddress.get(hoveredNode.address) ?? "-"}</dd>
+                <dt>Balance</dt>
+                <dd>{formatNumber(hoveredNode.balance)}</dd>
+                <dt>Supply</dt>
+                <dd>{hoveredNode.pctSupply.toFixed(4)}%</dd>
+                <dt>Cluster</dt>
+                <dd>#{hoveredNode.clusterId}</dd>
+                {hoveredNode.holderKind && (
+                  <>
+                    <dt>Holder</dt>
+                    <dd>
+                      {hoveredNode.holderKind}
+                      {hoveredNode.ownerProgram ? ` (${shorten(hoveredNode.ownerProgram)})` : ""}
+                    </dd>
+                  </>
+                )}
+                {hoveredNode.firstAcquiredSlot !== undefined && (
+                  <>
+                    <dt>First buy</dt>
+                    <dd>
+                      slot {hoveredNode.firstAcquiredSlot}
+                      {hoveredNode.sniper ? " · sniper" : ""}
+                    </dd>
+                  </>
+                )}
+                <dt>Connections</dt>
+                <dd>{degreeByAddress.get(hoveredNode.address) ?? 0}</dd>
+                {nodeChanges?.get(hoveredNode.address) && (
+                  <>
+                    <dt>Change</dt>
+                    <dd>{nodeChanges.get(hoveredNode.address)}</dd>
+                  </>
+                )}
+              </dl>
+            </>
+          )}
+          {hoveredEdge && (
+            <>
+              <p className="mono">
+                {nodeByAddress.get(hoveredEdge.from)?.label?.name ?? shorten(hoveredEdge.from)} {"->"}{" "}
+                {nodeByAddress.get(hoveredEdge.to)?.label?.name ?? shorten(hoveredEdge.to)}
+              </p>
+              <dl>
+                {hoveredEdge.kind === "funding" ? (
+                  <>
+                    <dt>First funding</dt>
+                    <dd>{formatNumber(hoveredEdge.amountSum)} GOR</dd>
+                    {hoveredEdge.funder && (
+                      <>
+                        <dt>Shared funder</dt>
+                        <dd className="mono">{shorten(hoveredEdge.funder)}</dd>
+                      </>
+                    )}
+                  </>
+                ) : (
+                  <>
+                    <dt>{hoveredEdge.kind === "mint" ? "Minted" : hoveredEdge.kind === "burn" ? "Burned" : "Amount"}</dt>
+                    <dd>{formatNumber(hoveredEdge.amountSum)}</dd>
+                    {hoveredEdge.feeSum !== undefined && (
+                      <>
+                        <dt>Fees withheld</dt>
+                        <dd>{formatNumber(hoveredEdge.feeSum)}</dd>
+                      </>
+                    )}
+                    <dt>{hoveredEdge.kind === "mint" || hoveredEdge.kind === "burn" ? "Transactions" : "Transfers"}</dt>
+                    <dd>{hoveredEdge.txCount}</dd>
+                  </>
+                )}
+                {edgeChanges?.get(snapshotEdgeKey(hoveredEdge)) && (
+                  <>
+                    <dt>Change</dt>
+                    <dd>{edgeChanges.get(snapshotEdgeKey(hoveredEdge))}</dd>
+                  </>
+                )}
+              </dl>
+            </>
+          )}
+        </div>
+      )}
+    </div>
   );
 }
@@ -2,6 +2,9 @@
 
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { AppHeader } from "@/components/AppHeader";
+import { PartialDataBanner } from "@/components/PartialDataBanner";
+import { WalletLabel } from "@/components/WalletLabel";
+import type { AddressLabel, ScanDiagnostics, TxCacheUsage } from "@/lib/types";
 
 interface HighVolumeBoardEntry {
   source: "bang.meme" | "trashbin.fun";
@@ -14,6 +17,7 @@ interface HighVolumeBoardEntry {
   sellTxCount: number;
   tokenCount: number;
   lastActivity: number | null;
+  label?: AddressLabel;
 }
 
 interface HighVolumeBoardSnapshot {
@@ -22,6 +26,8 @@ interface HighVolumeBoardSnapshot {
   scannedSignatures: number;
   scannedTransactions: number;
   minTotalGor: number;
+  diagnostics: ScanDiagnostics;
+  txCache: TxCacheUsage;
 }
 
 const DEFAULT_MIN_TOTAL_GOR = 25_000;
@@ -39,6 +45,7 @@ export function HighVolumeBoard(): JSX.Element {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [autoRefresh, setAutoRefresh] = useState(true);
+  const [hideLabeled, setHideLabeled] = useState(false);
   const [lastUpdatedAt, setLastUpdatedAt] = useState<number | null>(null);
 
   const fetchBoard = useCallback(async (refresh: boolean) => {
@@ -96,6 +103,16 @@ export function HighVolumeBoard(): JSX.Element {
     return () => clearInterval(id);
   }, [autoRefresh, fetchBoard]);
 
+  // Labeled programs and pools route other wallets' trades, so they can be hidden to leave only traders.
+  const visibleEntries = useMemo(() => {
+    const entries = snapshot?.entries ?? [];
+    if (!hideLabeled) {
+      return entries;
+    }
+
+    return entries.filter((entry) => entry.label?.kind !== "program" && entry.label?.kind !== "pool");
+  }, [hideLabeled, snapshot]);
+
   const summary = useMemo(() => {
     if (!snapshot) {
       return {
@@ -132,6 +149,14 @@ export function HighVolumeBoard(): JSX.Element {
               />
               Auto 8s
             </label>
+            <label className="scanCheck">
+              <input
+                type="checkbox"
+                checked={hideLabeled}
+                onChange={(event) => setHideLabeled(event.target.checked)}
+              />
+              Hide pools/programs
+            </label>
           </div>
         </div>
 
@@ -164,7 +189,11 @@ export function HighVolumeBoard(): JSX.Element {
           <article className="detailCard">
             <p className="detailLabel">Scanned Tx</p>
             <p className="detailValue">{snapshot?.scannedTransactions ?? "-"}</p>
-            <p className="detailSub">parsed transactions</p>
+            <p className="detailSub">
+              {snapshot?.txCache
+                ? `${formatNumber(snapshot.txCache.hitRate * 100, 1)}% from cache, ${snapshot.txCache.fetched} fetched`
+                : "parsed transactions"}
+            </p>
           </article>
           <article className="detailCard">
             <p className="detailLabel">Min Threshold</p>
@@ -181,6 +210,8 @@ export function HighVolumeBoard(): JSX.Element {
 
       {error && <p className="errorText">{error}</p>}
 
+      <PartialDataBanner diagnostics={snapshot?.diagnostics} />
+
       <section className="tableCard boardTableCard">
         <h2>Top Active Wallets</h2>
         <div className="tableWrap">
@@ -200,7 +231,7 @@ export function HighVolumeBoard(): JSX.Element {
               </tr>
             </thead>
             <tbody>
-              {snapshot?.entries.map((entry, index) => (
+              {visibleEntries.map((entry, index) => (
                 <tr key={`${entry.source}:${entry.wallet}`}>
                   <td>{index + 1}</td>
                   <td>
@@ -218,6 +249,7 @@ export function HighVolumeBoard(): JSX.Element {
                     >
                       {shortenAddress(entry.wallet)}
                     </a>
+                    <WalletLabel label={entry.label} />
                   </td>
                   <td>{formatNumber(entry.buyVolume, 2)}</td>
                   <td>{formatNumber(entry.sellVolume, 2)}</td>
@@ -0,0 +1,49 @@
+import type { HolderListPage } from "@/lib/types";
+
+interface HolderHistogramProps {
+  page: HolderListPage | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+const formatNumber = (value: number, maxFractionDigits = 2): string => {
+  return value.toLocaleString(undefined, { maximumFractionDigits: maxFractionDigits });
+};
+
+export function HolderHistogram({ page, isLoading, error }: HolderHistogramProps): JSX.Element {
+  const buckets = page?.histogram ?? [];
+  const maxCount = Math.max(1, ...buckets.map((bucket) => bucket.holderCount));
+
+  return (
+    <section className="inspectorPanel">
+      <div className="inspectorHead">
+        <h2>Holder Balances</h2>
+        <p>
+          {page
+            ? `${formatNumber(page.holderCount, 0)} holders by share of supply`
+            : isLoading
+              ? "Loading holder list..."
+              : "Holder list unavailable"}
+        </p>
+      </div>
+
+      {error && <p className="errorText">{error}</p>}
+
+      {buckets.length > 0 && (
+        <div className="histogramRows">
+          {buckets.map((bucket) => (
+            <div key={bucket.label} className="histogramRow">
+              <span className="histogramLabel">{bucket.label}</span>
+              <div className="histogramTrack">
+                <div className="histogramFill" style={{ width: `${(bucket.holderCount / maxCount) * 100}%` }} />
+              </div>
+              <span className="histogramValue">
+                {formatNumber(bucket.holderCount, 0)} · {formatNumber(bucket.pctSupply)}%
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,44 @@
+import type { ScanDiagnostics, ScanFailureScope } from "@/lib/types";
+
+interface PartialDataBannerProps {
+  diagnostics: ScanDiagnostics | undefined;
+  maxListed?: number;
+}
+
+const SCOPE_LABELS: Record<ScanFailureScope, string> = {
+  wallet: "wallet",
+  account: "token account",
+  program: "program",
+  chunk: "transaction chunk",
+  fingerprint: "activity check"
+};
+
+const shortenTarget = (target: string): string => {
+  return /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(target) ? `${target.slice(0, 6)}...${target.slice(-6)}` : target;
+};
+
+export function PartialDataBanner({ diagnostics, maxListed = 6 }: PartialDataBannerProps): JSX.Element | null {
+  if (!diagnostics || diagnostics.coverage >= 1) {
+    return null;
+  }
+
+  const hidden = diagnostics.failures.length - maxListed;
+
+  return (
+    <section className="partialBanner" role="status">
+      <p>
+        <strong>Partial data</strong> {(diagnostics.coverage * 100).toFixed(1)}% coverage: {diagnostics.failures.length}{" "}
+        of {diagnostics.attempted} requests failed after retries.
+      </p>
+      <ul>
+        {diagnostics.failures.slice(0, maxListed).map((failure) => (
+          <li key={`${failure.scope}:${failure.target}`}>
+            <span>{SCOPE_LABELS[failure.scope]}</span> <span className="mono">{shortenTarget(failure.target)}</span>{" "}
+            <span className="partialReason">{failure.message}</span>
+          </li>
+        ))}
+        {hidden > 0 && <li>and {hidden} more</li>}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,42 @@
+import type { RiskReport } from "@/lib/types";
+
+interface RiskPanelProps {
+  report: RiskReport | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export function RiskPanel({ report, isLoading, error }: RiskPanelProps): JSX.Element {
+  return (
+    <section className="inspectorPanel riskPanel">
+      <div className="inspectorHead">
+        <h2>Risk Report</h2>
+        {report ? (
+          <p>
+            <span className={`riskBadge ${report.level}`}>
+              {report.score}/100 · {report.level}
+            </span>
+          </p>
+        ) : (
+          <p>{isLoading ? "Scoring token..." : "Risk report unavailable"}</p>
+        )}
+      </div>
+
+      {error && <p className="errorText">{error}</p>}
+
+      {report && (
+        <ul className="riskFactors">
+          {report.factors.map((factor) => (
+            <li key={factor.key} className={factor.level}>
+              <strong>{factor.label}</strong>
+              <span className="riskPoints">
+                {factor.level === "unknown" ? "?" : `${factor.points}/${factor.maxPoints}`}
+              </span>
+              <p>{factor.explanation}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
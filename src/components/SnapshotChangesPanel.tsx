@@ -0,0 +1,172 @@
+import type { StoredSnapshotSummary } from "@/lib/snapshot-store";
+import type { NodeChangeKind, SnapshotDiff, SnapshotNodeChange } from "@/lib/types";
+
+interface SnapshotChangesPanelProps {
+  history: StoredSnapshotSummary[];
+  currentId: string | null;
+  baselineId: string | null;
+  onSelectBaseline: (id: string | null) => void;
+  diff: SnapshotDiff | null;
+  isLoading: boolean;
+  error: string | null;
+  onSelectNode: (address: string) => void;
+}
+
+const NODE_CHANGE_LABELS: Record<NodeChangeKind, string> = {
+  entered: "Entered",
+  exited: "Left",
+  accumulated: "Accumulated",
+  reduced: "Dumped"
+};
+
+const shortenAddress = (address: string): string => {
+  if (address.length <= 14) {
+    return address;
+  }
+
+  return `${address.slice(0, 6)}...${address.slice(-6)}`;
+};
+
+const formatSigned = (value: number, maxFractionDigits = 4): string => {
+  const formatted = value.toLocaleString(undefined, { maximumFractionDigits: maxFractionDigits });
+  return value > 0 ? `+${formatted}` : formatted;
+};
+
+const deltaClassName = (value: number | null): string => {
+  if (value === null) {
+    return "";
+  }
+
+  return value >= 0 ? "netUp" : "netDown";
+};
+
+// A holder that slipped out of (or into) the mapped holders has no balance on that side, which is not a zero balance.
+const describeUnmapped = (change: SnapshotNodeChange): string => {
+  return change.balanceAfter === null ? "No longer mapped" : "Newly mapped";
+};
+
+export function SnapshotChangesPanel({
+  history,
+  currentId,
+  baselineId,
+  onSelectBaseline,
+  diff,
+  isLoading,
+  error,
+  onSelectNode
+}: SnapshotChangesPanelProps): JSX.Element {
+  const baselines = history.filter((entry) => entry.id !== currentId);
+  const countByKind = (kind: NodeChangeKind): number => diff?.nodes.filter((change) => change.kind === kind).length ?? 0;
+
+  return (
+    <section className="inspectorPanel">
+      <div className="inspectorHead">
+        <h2>Changes Since</h2>
+        <select
+          className="changesSelect"
+          value={baselineId ?? ""}
+          onChange={(event) => onSelectBaseline(event.target.value || null)}
+          disabled={baselines.length === 0}
+        >
+          <option value="">{baselines.length === 0 ? "No earlier snapshots stored" : "Pick an earlier snapshot"}</option>
+          {baselines.map((entry) => (
+            <option key={entry.id} value={entry.id}>
+              {new Date(entry.createdAt).toLocaleString()} ({entry.nodeCount} holders, {entry.edgeCount} edges)
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {!currentId && <p className="inspectorHint">This snapshot was not stored, so it cannot be compared.</p>}
+      {isLoading && <p className="inspectorHint">Comparing snapshots...</p>}
+      {error && <p className="errorText">{error}</p>}
+
+      {diff && (
+        <>
+          <div className="inspectorStats">
+            <article>
+              <p>Entered Top {diff.topN}</p>
+              <strong className="changeEntered">{diff.entered.length}</strong>
+              <span>{diff.exited.length} left</span>
+            </article>
+            <article>
+              <p>Accumulated</p>
+              <strong className="netUp">{countByKind("accumulated")}</strong>
+              <span>{countByKind("reduced")} dumped</span>
+            </article>
+            <article>
+              <p>New Connections</p>
+              <strong>{diff.edges.filter((change) => change.kind === "added").length}</strong>
+              <span>{diff.edges.filter((change) => change.kind === "removed").length} vanished</span>
+            </article>
+            <article>
+              <p>Compared Window</p>
+              <strong>{new Date(diff.fromTimestamp).toLocaleString()}</strong>
+              <span>to {new Date(diff.toTimestamp).toLocaleString()}</span>
+            </article>
+          </div>
+
+          <div className="tablesGrid">
+            <div className="tableWrap">
+              <table>
+                <thead>
+                  <tr>
+                    <th>Wallet</th>
+                    <th>Change</th>
+                    <th>Balance</th>
+                    <th>% Supply</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.nodes.slice(0, 15).map((change) => (
+                    <tr key={change.address} onClick={() => onSelectNode(change.address)}>
+                      <td className="mono" title={change.address}>
+                        {shortenAddress(change.address)}
+                      </td>
+                      <td className={`changeKind ${change.kind}`}>{NODE_CHANGE_LABELS[change.kind]}</td>
+                      <td className={deltaClassName(change.balanceDelta)}>
+                        {change.balanceDelta === null ? describeUnmapped(change) : formatSigned(change.balanceDelta, 6)}
+                      </td>
+                      <td className={deltaClassName(change.pctSupplyDelta)}>
+                        {change.pctSupplyDelta === null
+                          ? `${(change.pctSupplyAfter ?? change.pctSupplyBefore ?? 0).toFixed(4)}%`
+                          : `${formatSigned(change.pctSupplyDelta)}%`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {diff.nodes.length === 0 && <p className="emptyHint small">No holder changes.</p>}
+            </div>
+
+            <div className="tableWrap">
+              <table>
+                <thead>
+                  <tr>
+                    <th>Cluster</th>
+                    <th>Wallets</th>
+                    <th>Before</th>
+                    <th>Share Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.clusters.slice(0, 8).map((change) => (
+                    <tr key={change.clusterId} onClick={() => onSelectNode(change.nodeAddresses[0] ?? "")}>
+                      <td>#{change.clusterId}</td>
+                      <td>{change.nodeAddresses.length}</td>
+                      <td>{change.pctSupplyBefore.toFixed(4)}%</td>
+                      <td className={change.pctSupplyDelta >= 0 ? "netUp" : "netDown"}>
+                        {formatSigned(change.pctSupplyDelta)}%
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {diff.clusters.length === 0 && <p className="emptyHint small">No multi-wallet clusters.</p>}
+            </div>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
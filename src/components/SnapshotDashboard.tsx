@@ -1,22 +1,108 @@
 "use client";
 
-import { useCallback, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { AppHeader } from "@/components/AppHeader";
 import { BubbleMap } from "@/components/BubbleMap";
 import { BubbleLoader } from "@/components/BubbleLoader";
-import type { SnapshotNode, TokenSnapshot } from "@/lib/types";
+import { HolderHistogram } from "@/components/HolderHistogram";
+import { PartialDataBanner } from "@/components/PartialDataBanner";
+import { RiskPanel } from "@/components/RiskPanel";
+import { SnapshotChangesPanel } from "@/components/SnapshotChangesPanel";
+import { WalletLabel } from "@/components/WalletLabel";
+import type { BubbleLayoutKind } from "@/lib/bubble-layout";
+import { indexClusters } from "@/lib/clusters";
+import { ADDRESS_LABEL_KINDS, parseLabelKindList } from "@/lib/label-kinds";
+import { applyLivePatch, parseLiveEventId } from "@/lib/live-patch";
+import { buildRiskReport } from "@/lib/risk";
+import {
+  CLUSTER_FUNDING_QUERY,
+  EDGE_COLLECTION_MODE_QUERY,
+  EDGE_COLLECTION_MODES,
+  EXCLUDE_PROGRAM_HOLDERS_QUERY,
+  DETECT_SNIPERS_QUERY,
+  FUNDING_EDGES_QUERY,
+  METRICS_EXCLUDE_LABELED_QUERY,
+  parseEdgeCollectionMode,
+  SCAN_LIMIT_KEYS,
+  SCAN_LIMITS,
+  type ScanLimitKey
+} from "@/lib/scan-params";
+import { snapshotEdgeKey } from "@/lib/snapshot-diff";
+import type { StoredSnapshotSummary } from "@/lib/snapshot-store";
+import type {
+  AddressLabelKind,
+  EdgeChangeKind,
+  EdgeCollectionMode,
+  HolderListPage,
+  LivePatch,
+  NodeChangeKind,
+  RiskReport,
+  SnapshotDiff,
+  SnapshotNode,
+  TokenSnapshot
+} from "@/lib/types";
 
 const DEFAULT_MINT = "";
+const LIVE_BASE_BACKOFF_MS = 1_000;
+const LIVE_MAX_BACKOFF_MS = 30_000;
+const LIVE_DEFAULT_HEARTBEAT_MS = 20_000;
 
-interface ClusterData {
-  id: number;
-  nodeAddresses: string[];
-  totalPctSupply: number;
-  totalBalance: number;
-  edgeCount: number;
-  transferAmount: number;
+type LiveStatus = "off" | "connecting" | "open" | "reconnecting";
+
+type ScanLimits = Record<ScanLimitKey, number>;
+
+const DEFAULT_SCAN_LIMITS = Object.fromEntries(
+  SCAN_LIMIT_KEYS.map((key) => [key, SCAN_LIMITS[key].defaultValue])
+) as ScanLimits;
+
+const clampScanLimits = (limits: ScanLimits): ScanLimits => {
+  return Object.fromEntries(
+    SCAN_LIMIT_KEYS.map((key) => {
+      const { min, max, defaultValue } = SCAN_LIMITS[key];
+      const value = Number.isFinite(limits[key]) ? Math.round(limits[key]) : defaultValue;
+      return [key, Math.min(max, Math.max(min, value))];
+    })
+  ) as ScanLimits;
+};
+
+const DEFAULT_EDGE_MODE: EdgeCollectionMode = "wallets";
+
+// Non-numeric scan options, kept next to the numeric limits.
+interface ScanChoices {
+  edgeMode: EdgeCollectionMode;
+  excludeProgramHolders: boolean;
+  metricsExcludeLabeled: boolean;
+  fundingEdges: boolean;
+  clusterFunding: boolean;
+  detectSnipers: boolean;
 }
 
+const DEFAULT_SCAN_CHOICES: ScanChoices = {
+  edgeMode: DEFAULT_EDGE_MODE,
+  excludeProgramHolders: false,
+  metricsExcludeLabeled: false,
+  fundingEdges: false,
+  clusterFunding: false,
+  detectSnipers: false
+};
+
+const setScanParams = (params: URLSearchParams, limits: ScanLimits, choices: ScanChoices): void => {
+  for (const key of SCAN_LIMIT_KEYS) {
+    params.set(SCAN_LIMITS[key].query, String(limits[key]));
+  }
+  params.set(EDGE_COLLECTION_MODE_QUERY, choices.edgeMode);
+  params.set(EXCLUDE_PROGRAM_HOLDERS_QUERY, choices.excludeProgramHolders ? "1" : "0");
+  params.set(METRICS_EXCLUDE_LABELED_QUERY, choices.metricsExcludeLabeled ? "1" : "0");
+  params.set(FUNDING_EDGES_QUERY, choices.fundingEdges ? "1" : "0");
+  params.set(CLUSTER_FUNDING_QUERY, choices.clusterFunding ? "1" : "0");
+  params.set(DETECT_SNIPERS_QUERY, choices.detectSnipers ? "1" : "0");
+};
+
+const parseFilterParam = (value: string | null, max: number): number => {
+  const parsed = Number.parseFloat(value ?? "");
+  return Number.isFinite(parsed) ? Math.min(max, Math.max(0, parsed)) : 0;
+};
+
 const shortenAddress = (address: string): string => {
   if (address.length <= 14) {
     return address;
@@ -35,27 +121,60 @@ export function SnapshotDashboard(): JSX.Element {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showConnections, setShowConnections] = useState(true);
+  const [mapLayout, setMapLayout] = useState<BubbleLayoutKind>("force");
   const [lastUpdatedAt, setLastUpdatedAt] = useState<number | null>(null);
   const [selectedWallet, setSelectedWallet] = useState<string | null>(null);
+  const [snapshotId, setSnapshotId] = useState<string | null>(null);
+  const [history, setHistory] = useState<StoredSnapshotSummary[]>([]);
+  const [baselineId, setBaselineId] = useState<string | null>(null);
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null);
+  const [isDiffLoading, setIsDiffLoading] = useState(false);
+  const [diffError, setDiffError] = useState<string | null>(null);
+  const [holderPage, setHolderPage] = useState<HolderListPage | null>(null);
+  const [isHolderPageLoading, setIsHolderPageLoading] = useState(false);
+  const [holderPageError, setHolderPageError] = useState<string | null>(null);
+  const [riskReport, setRiskReport] = useState<RiskReport | null>(null);
+  const [isRiskLoading, setIsRiskLoading] = useState(false);
+  const [riskError, setRiskError] = useState<string | null>(null);
+  const [minPct, setMinPct] = useState(0);
+  const [minEdgeAmount, setMinEdgeAmount] = useState(0);
+  const [hiddenLabelKinds, setHiddenLabelKinds] = useState<AddressLabelKind[]>([]);
+  const [scanLimits, setScanLimits] = useState<ScanLimits>(DEFAULT_SCAN_LIMITS);
+  const [scanChoices, setScanChoices] = useState<ScanChoices>(DEFAULT_SCAN_CHOICES);
+  // Mint, limits and choices of the last successful scan, mirrored into the URL so the scan can be reproduced.
+  const [appliedScan, setAppliedScan] = useState<{
+    mint: string;
+    limits: ScanLimits;
+    choices: ScanChoices;
+  } | null>(null);
+  const [isLive, setIsLive] = useState(false);
+  const [liveStatus, setLiveStatus] = useState<LiveStatus>("off");
+  const [lastHeartbeatAt, setLastHeartbeatAt] = useState<number | null>(null);
+  const [liveError, setLiveError] = useState<string | null>(null);
 
-  const fetchSnapshot = useCallback(async () => {
-    const mint = mintInput.trim();
+  const fetchSnapshot = useCallback(async (
+    mintValue: string,
+    limits: ScanLimits,
+    choices: ScanChoices,
+    refresh: boolean
+  ) => {
+    const mint = mintValue.trim();
     if (!mint) {
       setError("Mint address is required.");
       return;
     }
 
+    const clampedLimits = clampScanLimits(limits);
+    setScanLimits(clampedLimits);
     setIsLoading(true);
     setError(null);
 
     try {
-      const params = new URLSearchParams({
-        mint,
-        n: "120",
-        edgeWallets: "30",
-        txLimit: "120",
-        refresh: "1"
-      });
+      const params = new URLSearchParams({ mint });
+      setScanParams(params, clampedLimits, choices);
+      if (refresh) {
+        params.set("refresh", "1");
+      }
 
       const response = await fetch(`/api/snapshot?${params.toString()}`, {
         cache: "no-store"
@@ -69,18 +188,222 @@ export function SnapshotDashboard(): JSX.Element {
 
       const nextSnapshot = payload as TokenSnapshot;
       setSnapshot(nextSnapshot);
+      setSnapshotId(response.headers.get("X-Snapshot-Id"));
       setSelectedWallet(nextSnapshot.nodes[0]?.address ?? null);
       setLastUpdatedAt(Date.now());
+      setAppliedScan({ mint, limits: clampedLimits, choices });
     } catch (scanError) {
       const message = scanError instanceof Error ? scanError.message : "Failed to scan mint";
       setError(message);
     } finally {
       setIsLoading(false);
     }
-  }, [mintInput]);
+  }, []);
+
+  useEffect(() => {
+    const query = new URLSearchParams(window.location.search);
+    const mint = query.get("mint")?.trim() ?? "";
+    const limits = clampScanLimits(
+      Object.fromEntries(
+        SCAN_LIMIT_KEYS.map((key) => [
+          key,
+          Number.parseInt(query.get(SCAN_LIMITS[key].query) ?? "", 10) || SCAN_LIMITS[key].defaultValue
+        ])
+      ) as ScanLimits
+    );
+
+    const choices: ScanChoices = {
+      edgeMode: parseEdgeCollectionMode(query.get(EDGE_COLLECTION_MODE_QUERY), DEFAULT_EDGE_MODE),
+      excludeProgramHolders: query.get(EXCLUDE_PROGRAM_HOLDERS_QUERY) === "1",
+      metricsExcludeLabeled: query.get(METRICS_EXCLUDE_LABELED_QUERY) === "1",
+      fundingEdges: query.get(FUNDING_EDGES_QUERY) === "1",
+      clusterFunding: query.get(CLUSTER_FUNDING_QUERY) === "1",
+      detectSnipers: query.get(DETECT_SNIPERS_QUERY) === "1"
+    };
+
+    setScanLimits(limits);
+    setScanChoices(choices);
+    setMinPct(parseFilterParam(query.get("minPct"), 100));
+    setMinEdgeAmount(parseFilterParam(query.get("minEdge"), Number.MAX_SAFE_INTEGER));
+    setHiddenLabelKinds(parseLabelKindList(query.get("hide")));
+
+    if (mint) {
+      setMintInput(mint);
+      // A shared link may be served from the snapshot cache instead of forcing a rebuild.
+      void fetchSnapshot(mint, limits, choices, false);
+    }
+  }, [fetchSnapshot]);
+
+  useEffect(() => {
+    // Start from the current query so a shared link keeps its scan parameters until a scan replaces them.
+    const query = new URLSearchParams(window.location.search);
+    if (appliedScan) {
+      query.set("mint", appliedScan.mint);
+      setScanParams(query, appliedScan.limits, appliedScan.choices);
+    }
+
+    if (minPct > 0) {
+      query.set("minPct", String(minPct));
+    } else {
+      query.delete("minPct");
+    }
+
+    if (minEdgeAmount > 0) {
+      query.set("minEdge", String(minEdgeAmount));
+    } else {
+      query.delete("minEdge");
+    }
+
+    if (hiddenLabelKinds.length > 0) {
+      query.set("hide", hiddenLabelKinds.join(","));
+    } else {
+      query.delete("hide");
+    }
+
+    const search = query.toString();
+    window.history.replaceState(null, "", search ? `?${search}` : window.location.pathname);
+  }, [appliedScan, hiddenLabelKinds, minEdgeAmount, minPct]);
+
+  useEffect(() => {
+    if (!isLive || !appliedScan) {
+      setLiveStatus("off");
+      setLastHeartbeatAt(null);
+      return;
+    }
+
+    const params = new URLSearchParams({ mint: appliedScan.mint });
+    setScanParams(params, appliedScan.limits, appliedScan.choices);
+
+    let source: EventSource | null = null;
+    let retryTimer: number | null = null;
+    let watchdogTimer: number | null = null;
+    let attempt = 0;
+    let heartbeatMs = LIVE_DEFAULT_HEARTBEAT_MS;
+    let closed = false;
+    // Id of the last snapshot or patch applied, sent back on reconnect so the server can replay what was missed.
+    let lastEventId: string | null = null;
+
+    const clearTimers = (): void => {
+      if (retryTimer !== null) {
+        window.clearTimeout(retryTimer);
+        retryTimer = null;
+      }
+
+      if (watchdogTimer !== null) {
+        window.clearTimeout(watchdogTimer);
+        watchdogTimer = null;
+      }
+    };
+
+    const scheduleReconnect = (): void => {
+      source?.close();
+      source = null;
+      clearTimers();
+
+      if (closed) {
+        return;
+      }
+
+      const delay = Math.min(LIVE_MAX_BACKOFF_MS, LIVE_BASE_BACKOFF_MS * 2 ** attempt);
+      attempt += 1;
+      setLiveStatus("reconnecting");
+      retryTimer = window.setTimeout(connect, delay);
+    };
+
+    // A stream that stops sending heartbeats is treated as dropped even if the socket never reports an error.
+    const resetWatchdog = (): void => {
+      if (watchdogTimer !== null) {
+        window.clearTimeout(watchdogTimer);
+      }
+
+      watchdogTimer = window.setTimeout(scheduleReconnect, heartbeatMs * 3);
+    };
+
+    const connect = (): void => {
+      setLiveStatus(attempt === 0 ? "connecting" : "reconnecting");
+      if (lastEventId) {
+        params.set("lastEventId", lastEventId);
+      }
+      source = new EventSource(`/api/live?${params.toString()}`);
+
+      source.addEventListener("ready", (event) => {
+        const payload = JSON.parse(event.data) as { heartbeatMs?: number };
+        heartbeatMs = payload.heartbeatMs ?? heartbeatMs;
+        attempt = 0;
+        setLiveStatus("open");
+        setLiveError(null);
+        resetWatchdog();
+      });
+
+      source.addEventListener("heartbeat", (event) => {
+        const payload = JSON.parse(event.data) as { timestamp: number };
+        setLastHeartbeatAt(payload.timestamp);
+        resetWatchdog();
+      });
+
+      source.addEventListener("snapshot", (event) => {
+        // Keep the selected wallet and the map viewport; only the data is replaced. Live snapshots are not stored,
+        // so the snapshot id stays on the last stored one and the changes panel keeps comparing against it.
+        setSnapshot(JSON.parse(event.data) as TokenSnapshot);
+        setLastUpdatedAt(Date.now());
+        setLiveError(null);
+        lastEventId = event.lastEventId || null;
+        resetWatchdog();
+      });
+
+      source.addEventListener("patch", (event) => {
+        const patch = JSON.parse(event.data) as LivePatch;
+        const cursor = parseLiveEventId(lastEventId);
+
+        // A gap in the sequence means an event was lost; reconnect so the server replays or resends the snapshot.
+        if (!cursor || cursor.sequence !== patch.baseSequence) {
+          attempt = 0;
+          scheduleReconnect();
+          return;
+        }
+
+        setSnapshot((current) => (current && current.mint === patch.mint ? applyLivePatch(current, patch) : current));
+        setLastUpdatedAt(Date.now());
+        setLiveError(null);
+        lastEventId = event.lastEventId || null;
+        resetWatchdog();
+      });
+
+      source.addEventListener("snapshot_error", (event) => {
+        const payload = JSON.parse(event.data) as { message?: string };
+        setLiveError(payload.message ?? "Live refresh failed");
+        resetWatchdog();
+      });
+
+      source.onerror = () => {
+        scheduleReconnect();
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      source?.close();
+      clearTimers();
+    };
+  }, [appliedScan, isLive]);
+
+  const transferEdges = useMemo(() => {
+    return snapshot?.edges.filter((edge) => (edge.kind ?? "transfer") === "transfer") ?? [];
+  }, [snapshot]);
+
+  const holderNodes = useMemo(() => {
+    return snapshot?.nodes.filter((node) => !node.synthetic) ?? [];
+  }, [snapshot]);
 
   const detailCards = useMemo(() => {
     const topHolder = snapshot?.nodes[0];
+    const distribution = snapshot?.distribution;
+    const fundingEdgeCount = snapshot?.edges.filter((edge) => edge.kind === "funding").length ?? 0;
+    const supplyEdgeCount = snapshot?.edges.filter((edge) => edge.kind === "mint" || edge.kind === "burn").length ?? 0;
+    const snipers = snapshot?.snipers;
+    const circulating = snapshot?.circulating;
 
     return [
       {
@@ -93,6 +416,16 @@ export function SnapshotDashboard(): JSX.Element {
         value: snapshot ? formatNumber(snapshot.supply, 6) : "-",
         sub: snapshot ? `${snapshot.decimals} decimals` : ""
       },
+      {
+        label: "Circulating Supply",
+        value: circulating ? formatNumber(circulating.circulatingSupply, 2) : "-",
+        sub: circulating
+          ? `${circulating.pctSupply.toFixed(2)}% · burned ${formatNumber(circulating.burned, 2)} · locked ${formatNumber(
+              circulating.locked,
+              2
+            )} · programs ${formatNumber(circulating.programOwned, 2)}`
+          : ""
+      },
       {
         label: "Program",
         value: snapshot?.tokenProgram ?? "-",
@@ -101,98 +434,258 @@ export function SnapshotDashboard(): JSX.Element {
       {
         label: "Top Holder",
         value: topHolder ? `${topHolder.pctSupply.toFixed(2)}%` : "-",
-        sub: topHolder ? shortenAddress(topHolder.address) : ""
+        sub: topHolder
+          ? `${topHolder.label?.name ?? shortenAddress(topHolder.address)}${
+              topHolder.holderKind && topHolder.holderKind !== "wallet" ? ` · ${topHolder.holderKind}` : ""
+            }`
+          : ""
       },
       {
         label: "Holders Mapped",
-        value: snapshot ? String(snapshot.nodes.length) : "-",
-        sub: "bubble nodes"
+        value: snapshot ? String(holderNodes.length) : "-",
+        sub: snapshot?.excludedHolders
+          ? `${snapshot.excludedHolders.count} program holders excluded (${snapshot.excludedHolders.pctSupply.toFixed(2)}%)`
+          : "bubble nodes"
       },
       {
         label: "Connections",
-        value: snapshot ? String(snapshot.edges.length) : "-",
-        sub: "transfer edges"
+        value: snapshot ? String(transferEdges.length) : "-",
+        sub: `transfer edges${fundingEdgeCount > 0 ? ` · ${fundingEdgeCount} funding links` : ""}${
+          supplyEdgeCount > 0 ? ` · ${supplyEdgeCount} mint/burn` : ""
+        }`
+      },
+      {
+        label: "Holder Count",
+        value: distribution ? formatNumber(distribution.holderCount, 0) : "-",
+        sub: distribution
+          ? `${distribution.holdersToHalf} hold 50%${
+              distribution.excludedLabeled > 0 ? ` · ${distribution.excludedLabeled} labeled excluded` : ""
+            }`
+          : ""
+      },
+      {
+        label: "Top 10 Share",
+        value: distribution ? `${distribution.top10Pct.toFixed(2)}%` : "-",
+        sub: distribution
+          ? `top 50 ${distribution.top50Pct.toFixed(1)}% · top 100 ${distribution.top100Pct.toFixed(1)}%`
+          : ""
+      },
+      {
+        label: "Sniper-held Supply",
+        value: snipers ? `${snipers.sniperPctSupply.toFixed(2)}%` : "-",
+        sub: snipers
+          ? `${snipers.sniperCount} snipers · ${snipers.bundledSlots} bundled slots · ${snipers.windowSlots}-slot window`
+          : snapshot
+            ? "launch not traced"
+            : ""
+      },
+      {
+        label: "Gini",
+        value: distribution ? distribution.gini.toFixed(3) : "-",
+        sub: distribution ? `HHI ${formatNumber(distribution.hhi, 0)}` : ""
       }
     ];
-  }, [snapshot]);
+  }, [holderNodes, snapshot, transferEdges]);
 
   const clusterGraph = useMemo(() => {
     if (!snapshot) {
       return null;
     }
 
-    const adjacency = new Map<string, Set<string>>();
     const nodeByAddress = new Map(snapshot.nodes.map((node) => [node.address, node]));
+    return { ...indexClusters(snapshot.clusters), nodeByAddress };
+  }, [snapshot]);
+
+  const snapshotMint = snapshot?.mint ?? null;
 
-    for (const node of snapshot.nodes) {
-      adjacency.set(node.address, new Set());
+  // Reloaded when a scan stores a new snapshot, not on every live update.
+  useEffect(() => {
+    if (!snapshotMint) {
+      return;
     }
 
-    for (const edge of snapshot.edges) {
-      if (!adjacency.has(edge.from) || !adjacency.has(edge.to)) {
-        continue;
+    let cancelled = false;
+
+    const loadHistory = async (): Promise<void> => {
+      try {
+        const response = await fetch(`/api/snapshots?mint=${encodeURIComponent(snapshotMint)}&limit=50`, {
+          cache: "no-store"
+        });
+        const payload = (await response.json()) as { snapshots?: StoredSnapshotSummary[] };
+        if (!cancelled && response.ok) {
+          const snapshots = payload.snapshots ?? [];
+          setHistory(snapshots);
+          setBaselineId((current) => (current && snapshots.some((entry) => entry.id === current) ? current : null));
+        }
+      } catch {
+        // History is optional; the changes panel just stays empty.
       }
+    };
+
+    void loadHistory();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [snapshotMint, snapshotId]);
 
-      adjacency.get(edge.from)?.add(edge.to);
-      adjacency.get(edge.to)?.add(edge.from);
+  useEffect(() => {
+    if (!snapshotMint) {
+      setHolderPage(null);
+      return;
     }
 
-    const visited = new Set<string>();
-    const clusters: ClusterData[] = [];
-    const nodeToCluster = new Map<string, ClusterData>();
+    let cancelled = false;
 
-    for (const node of snapshot.nodes) {
-      if (visited.has(node.address)) {
-        continue;
-      }
+    const loadHolderPage = async (): Promise<void> => {
+      setIsHolderPageLoading(true);
+      setHolderPageError(null);
 
-      const stack = [node.address];
-      const members: string[] = [];
+      try {
+        // The snapshot build just cached the holder scan, so this only asks for the histogram.
+        const response = await fetch(`/api/holders?mint=${encodeURIComponent(snapshotMint)}&limit=0`, {
+          cache: "no-store"
+        });
+        const payload = (await response.json()) as HolderListPage | { error?: string };
+        if (!response.ok) {
+          throw new Error("error" in payload ? payload.error ?? "Holder request failed" : "Holder request failed");
+        }
 
-      while (stack.length > 0) {
-        const current = stack.pop();
-        if (!current || visited.has(current)) {
-          continue;
+        if (!cancelled) {
+          setHolderPage(payload as HolderListPage);
+        }
+      } catch (holderError) {
+        if (!cancelled) {
+          setHolderPageError(holderError instanceof Error ? holderError.message : "Failed to load holders");
         }
+      } finally {
+        if (!cancelled) {
+          setIsHolderPageLoading(false);
+        }
+      }
+    };
+
+    void loadHolderPage();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [snapshotMint, snapshotId]);
+
+  useEffect(() => {
+    if (!appliedScan) {
+      setRiskReport(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadRiskReport = async (): Promise<void> => {
+      setIsRiskLoading(true);
+      setRiskError(null);
 
-        visited.add(current);
-        members.push(current);
+      try {
+        // Same scan options as the snapshot, so the report scores the cached snapshot instead of building another.
+        const params = new URLSearchParams({ mint: appliedScan.mint });
+        setScanParams(params, appliedScan.limits, appliedScan.choices);
 
-        const neighbors = adjacency.get(current);
-        if (!neighbors) {
-          continue;
+        const response = await fetch(`/api/risk?${params.toString()}`, { cache: "no-store" });
+        const payload = (await response.json()) as RiskReport | { error?: string };
+        if (!response.ok) {
+          throw new Error("error" in payload ? payload.error ?? "Risk request failed" : "Risk request failed");
         }
 
-        for (const neighbor of neighbors) {
-          if (!visited.has(neighbor)) {
-            stack.push(neighbor);
-          }
+        if (!cancelled) {
+          setRiskReport(payload as RiskReport);
+        }
+      } catch (riskLoadError) {
+        if (!cancelled) {
+          setRiskError(riskLoadError instanceof Error ? riskLoadError.message : "Failed to load risk report");
+        }
+      } finally {
+        if (!cancelled) {
+          setIsRiskLoading(false);
         }
       }
+    };
 
-      const memberSet = new Set(members);
-      const clusterEdges = snapshot.edges.filter((edge) => memberSet.has(edge.from) && memberSet.has(edge.to));
-      const clusterNodes = members
-        .map((address) => nodeByAddress.get(address))
-        .filter((clusterNode): clusterNode is SnapshotNode => Boolean(clusterNode));
-
-      const clusterData: ClusterData = {
-        id: clusters.length + 1,
-        nodeAddresses: members,
-        totalPctSupply: clusterNodes.reduce((sum, clusterNode) => sum + clusterNode.pctSupply, 0),
-        totalBalance: clusterNodes.reduce((sum, clusterNode) => sum + clusterNode.balance, 0),
-        edgeCount: clusterEdges.length,
-        transferAmount: clusterEdges.reduce((sum, edge) => sum + edge.amountSum, 0)
-      };
+    void loadRiskReport();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [appliedScan]);
+
+  // The mint's authorities come from the fetched report; the holder factors are rescored on every live update.
+  const currentRiskReport = useMemo(() => {
+    if (!riskReport || !snapshot || snapshot.mint !== riskReport.mint) {
+      return riskReport;
+    }
+
+    return buildRiskReport(snapshot, riskReport.security);
+  }, [riskReport, snapshot]);
+
+  useEffect(() => {
+    setDiff(null);
+    setDiffError(null);
+
+    if (!baselineId || !snapshotId || baselineId === snapshotId) {
+      return;
+    }
+
+    let cancelled = false;
 
-      clusters.push(clusterData);
-      for (const address of members) {
-        nodeToCluster.set(address, clusterData);
+    const loadDiff = async (): Promise<void> => {
+      setIsDiffLoading(true);
+
+      try {
+        const params = new URLSearchParams({ from: baselineId, to: snapshotId });
+        const response = await fetch(`/api/diff?${params.toString()}`, { cache: "no-store" });
+        const payload = (await response.json()) as { diff?: SnapshotDiff; error?: string };
+        if (!response.ok || !payload.diff) {
+          throw new Error(payload.error ?? "Diff request failed");
+        }
+
+        if (!cancelled) {
+          setDiff(payload.diff);
+        }
+      } catch (loadError) {
+        if (!cancelled) {
+          setDiffError(loadError instanceof Error ? loadError.message : "Failed to compare snapshots");
+        }
+      } finally {
+        if (!cancelled) {
+          setIsDiffLoading(false);
+        }
       }
+    };
+
+    void loadDiff();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [baselineId, snapshotId]);
+
+  const nodeChanges = useMemo(() => {
+    if (!diff) {
+      return undefined;
     }
 
-    return { clusters, nodeToCluster, nodeByAddress };
-  }, [snapshot]);
+    return new Map<string, NodeChangeKind>(diff.nodes.map((change) => [change.address, change.kind]));
+  }, [diff]);
+
+  const edgeChanges = useMemo(() => {
+    if (!diff) {
+      return undefined;
+    }
+
+    return new Map<string, EdgeChangeKind>(
+      diff.edges.map((change) => [snapshotEdgeKey({ ...change, kind: change.edgeKind }), change.kind])
+    );
+  }, [diff]);
+
+  const hiddenLabelKindSet = useMemo(() => new Set(hiddenLabelKinds), [hiddenLabelKinds]);
 
   const selectedNode = useMemo(() => {
     if (!snapshot || !selectedWallet) {
@@ -247,7 +740,7 @@ export function SnapshotDashboard(): JSX.Element {
               onChange={(event) => setMintInput(event.target.value)}
               placeholder="Paste token mint address"
             />
-            <button onClick={() => void fetchSnapshot()} disabled={isLoading}>
+            <button onClick={() => void fetchSnapshot(mintInput, scanLimits, scanChoices, true)} disabled={isLoading}>
               {isLoading ? "SCANNING..." : "SCAN"}
             </button>
           </div>
@@ -259,21 +752,198 @@ export function SnapshotDashboard(): JSX.Element {
             />
             Show transfer connections
           </label>
-          <p className="scanStamp">{lastUpdatedAt ? `Last scan ${new Date(lastUpdatedAt).toLocaleTimeString()}` : ""}</p>
+          <div className="mapFilters">
+            <label>
+              Min % supply
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step={0.01}
+                value={minPct}
+                onChange={(event) => setMinPct(parseFilterParam(event.target.value, 100))}
+              />
+            </label>
+            <label>
+              Min edge amount
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={minEdgeAmount}
+                onChange={(event) => setMinEdgeAmount(parseFilterParam(event.target.value, Number.MAX_SAFE_INTEGER))}
+              />
+            </label>
+          </div>
+          <div className="labelFilters" aria-label="Hide labeled addresses">
+            {(Object.keys(ADDRESS_LABEL_KINDS) as AddressLabelKind[]).map((kind) => (
+              <label key={kind} className="scanCheck">
+                <input
+                  type="checkbox"
+                  checked={hiddenLabelKinds.includes(kind)}
+                  onChange={(event) =>
+                    setHiddenLabelKinds((current) =>
+                      event.target.checked ? [...current, kind] : current.filter((entry) => entry !== kind)
+                    )
+                  }
+                />
+                Hide {ADDRESS_LABEL_KINDS[kind].toLowerCase()}
+              </label>
+            ))}
+          </div>
+          <details className="advancedScan">
+            <summary>Advanced scan</summary>
+            <div className="advancedScanGrid">
+              {SCAN_LIMIT_KEYS.map((key) => (
+                <label key={key}>
+                  {SCAN_LIMITS[key].label}
+                  <input
+                    type="number"
+                    min={SCAN_LIMITS[key].min}
+                    max={SCAN_LIMITS[key].max}
+                    step={1}
+                    value={scanLimits[key]}
+                    onChange={(event) =>
+                      setScanLimits((current) => ({ ...current, [key]: Number.parseInt(event.target.value, 10) }))
+                    }
+                    onBlur={() => setScanLimits((current) => clampScanLimits(current))}
+                  />
+                  <span>
+                    {SCAN_LIMITS[key].min}-{SCAN_LIMITS[key].max}
+                  </span>
+                </label>
+              ))}
+              <label>
+                Edge sources
+                <select
+                  value={scanChoices.edgeMode}
+                  onChange={(event) =>
+                    setScanChoices((current) => ({
+                      ...current,
+                      edgeMode: parseEdgeCollectionMode(event.target.value, DEFAULT_EDGE_MODE)
+                    }))
+                  }
+                >
+                  {(Object.keys(EDGE_COLLECTION_MODES) as EdgeCollectionMode[]).map((mode) => (
+                    <option key={mode} value={mode} title={EDGE_COLLECTION_MODES[mode].description}>
+                      {EDGE_COLLECTION_MODES[mode].label}
+                    </option>
+                  ))}
+                </select>
+                <span>{EDGE_COLLECTION_MODES[scanChoices.edgeMode].description}</span>
+              </label>
+              <label className="scanCheck">
+                <input
+                  type="checkbox"
+                  checked={scanChoices.excludeProgramHolders}
+                  onChange={(event) =>
+                    setScanChoices((current) => ({ ...current, excludeProgramHolders: event.target.checked }))
+                  }
+                />
+                Exclude PDA and program-owned holders
+              </label>
+              <label className="scanCheck">
+                <input
+                  type="checkbox"
+                  checked={scanChoices.metricsExcludeLabeled}
+                  onChange={(event) =>
+                    setScanChoices((current) => ({ ...current, metricsExcludeLabeled: event.target.checked }))
+                  }
+                />
+                Leave labeled pools and burn out of metrics
+              </label>
+              <label className="scanCheck">
+                <input
+                  type="checkbox"
+                  checked={scanChoices.fundingEdges}
+                  onChange={(event) => setScanChoices((current) => ({ ...current, fundingEdges: event.target.checked }))}
+                />
+                Trace first GOR funders
+              </label>
+              <label className="scanCheck">
+                <input
+                  type="checkbox"
+                  checked={scanChoices.clusterFunding}
+                  disabled={!scanChoices.fundingEdges}
+                  onChange={(event) =>
+                    setScanChoices((current) => ({ ...current, clusterFunding: event.target.checked }))
+                  }
+                />
+                Cluster by funding links
+              </label>
+              <label className="scanCheck">
+                <input
+                  type="checkbox"
+                  checked={scanChoices.detectSnipers}
+                  onChange={(event) =>
+                    setScanChoices((current) => ({ ...current, detectSnipers: event.target.checked }))
+                  }
+                />
+                Flag snipers and bundled buys
+              </label>
+            </div>
+          </details>
+          <div className="layoutToggle" role="radiogroup" aria-label="Map layout">
+            {(["force", "spiral"] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                role="radio"
+                aria-checked={mapLayout === option}
+                className={mapLayout === option ? "active" : ""}
+                onClick={() => setMapLayout(option)}
+              >
+                {option.toUpperCase()}
+              </button>
+            ))}
+          </div>
+          <div className="liveRow">
+            <button
+              type="button"
+              className={isLive ? "liveToggle active" : "liveToggle"}
+              aria-pressed={isLive}
+              disabled={!appliedScan}
+              onClick={() => setIsLive((current) => !current)}
+            >
+              LIVE
+            </button>
+            {isLive && (
+              <span className={`liveStatus ${liveStatus}`}>
+                {liveStatus === "open" ? "Connected" : liveStatus === "off" ? "Waiting for scan" : `${liveStatus}...`}
+                {lastHeartbeatAt ? ` · heartbeat ${new Date(lastHeartbeatAt).toLocaleTimeString()}` : ""}
+              </span>
+            )}
+          </div>
+          {isLive && liveError && <p className="errorText">{liveError}</p>}
+          <p className="scanStamp">
+            {lastUpdatedAt ? `Last scan ${new Date(lastUpdatedAt).toLocaleTimeString()}` : ""}
+            {snapshot?.rpc && (snapshot.rpc.retriedRequests > 0 || snapshot.rpc.failedRequests > 0)
+              ? ` · ${snapshot.rpc.retriedRequests} of ${snapshot.rpc.requests} RPC requests retried, ${snapshot.rpc.failedRequests} failed`
+              : ""}
+            {snapshot?.txCache && snapshot.txCache.requested > 0
+              ? ` · ${formatNumber(snapshot.txCache.hitRate * 100, 1)}% of ${snapshot.txCache.requested} transactions from cache`
+              : ""}
+          </p>
         </div>
       </section>
 
       {error && <p className="errorText">{error}</p>}
 
-      <section className="detailGrid">
-        {detailCards.map((card) => (
-          <article key={card.label} className="detailCard">
-            <p className="detailLabel">{card.label}</p>
-            <p className="detailValue">{card.value}</p>
-            <p className="detailSub">{card.sub}</p>
-          </article>
-        ))}
-      </section>
+      <PartialDataBanner diagnostics={snapshot?.diagnostics} />
+
+      <div className={snapshot ? "detailRow" : undefined}>
+        <section className="detailGrid">
+          {detailCards.map((card) => (
+            <article key={card.label} className="detailCard">
+              <p className="detailLabel">{card.label}</p>
+              <p className="detailValue">{card.value}</p>
+              <p className="detailSub">{card.sub}</p>
+            </article>
+          ))}
+        </section>
+
+        {snapshot && <RiskPanel report={currentRiskReport} isLoading={isRiskLoading} error={riskError} />}
+      </div>
 
       <section className="mapPanel">
         <div className="mapStage">
@@ -281,12 +951,16 @@ export function SnapshotDashboard(): JSX.Element {
             <BubbleMap
               nodes={snapshot.nodes}
               edges={snapshot.edges}
-              minPct={0}
-              minEdgeAmount={0}
+              minPct={minPct}
+              minEdgeAmount={minEdgeAmount}
+              hiddenLabelKinds={hiddenLabelKindSet}
               showConnections={showConnections}
+              layout={mapLayout}
               selectedAddress={selectedWallet}
               selectedClusterAddresses={selectedClusterSet}
               onSelectNode={setSelectedWallet}
+              nodeChanges={nodeChanges}
+              edgeChanges={edgeChanges}
             />
           ) : (
             <p className="emptyHint">Run SCAN to render the bubble map.</p>
@@ -300,10 +974,25 @@ export function SnapshotDashboard(): JSX.Element {
         </div>
       </section>
 
+      {snapshot && <HolderHistogram page={holderPage} isLoading={isHolderPageLoading} error={holderPageError} />}
+
+      {snapshot && (
+        <SnapshotChangesPanel
+          history={history}
+          currentId={snapshotId}
+          baselineId={baselineId}
+          onSelectBaseline={setBaselineId}
+          diff={diff}
+          isLoading={isDiffLoading}
+          error={diffError}
+          onSelectNode={setSelectedWallet}
+        />
+      )}
+
       <section className="inspectorPanel">
         <div className="inspectorHead">
           <h2>Cluster Inspector</h2>
-          <p>Click a bubble to inspect the wallet and its connected cluster.</p>
+          <p>Click a bubble to inspect the wallet and its holder cluster.</p>
         </div>
 
         {!snapshot && <p className="inspectorHint">Run SCAN to enable interaction.</p>}
@@ -315,6 +1004,7 @@ export function SnapshotDashboard(): JSX.Element {
             <div className="inspectorStats">
               <article>
                 <p>Selected Wallet</p>
+                <WalletLabel label={selectedNode.label} />
                 <a
                   className="walletLink"
                   href={`https://trashscan.io/address/${selectedNode.address}`}
@@ -324,6 +1014,18 @@ export function SnapshotDashboard(): JSX.Element {
                   {shortenAddress(selectedNode.address)}
                 </a>
                 <strong>{selectedNode.pctSupply.toFixed(4)}% supply</strong>
+                {selectedNode.holderKind && selectedNode.holderKind !== "wallet" && (
+                  <span>
+                    {selectedNode.holderKind}
+                    {selectedNode.ownerProgram ? ` of ${shortenAddress(selectedNode.ownerProgram)}` : ""}
+                  </span>
+                )}
+                {selectedNode.firstAcquiredSlot !== undefined && (
+                  <span>
+                    {selectedNode.sniper ? "Sniper · " : ""}first bought slot {selectedNode.firstAcquiredSlot}
+                    {snapshot.snipers ? ` (+${selectedNode.firstAcquiredSlot - snapshot.snipers.creationSlot})` : ""}
+                  </span>
+                )}
               </article>
               <article>
                 <p>Cluster Share</p>
@@ -355,6 +1057,7 @@ export function SnapshotDashboard(): JSX.Element {
                     >
                       {shortenAddress(node.address)}
                     </a>
+                    <WalletLabel label={node.label} />
                     <span>{node.pctSupply.toFixed(4)}%</span>
                   </li>
                 ))}
@@ -378,7 +1081,7 @@ export function SnapshotDashboard(): JSX.Element {
                   </tr>
                 </thead>
                 <tbody>
-                  {snapshot.nodes.slice(0, 25).map((node) => (
+                  {holderNodes.slice(0, 25).map((node) => (
                     <tr key={node.address}>
                       <td>
                         <a
@@ -390,6 +1093,7 @@ export function SnapshotDashboard(): JSX.Element {
                         >
                           {shortenAddress(node.address)}
                         </a>
+                        <WalletLabel label={node.label} />
                       </td>
                       <td>{formatNumber(node.balance, 6)}</td>
                       <td>{node.pctSupply.toFixed(4)}%</td>
@@ -413,7 +1117,7 @@ export function SnapshotDashboard(): JSX.Element {
                   </tr>
                 </thead>
                 <tbody>
-                  {snapshot.edges.slice(0, 25).map((edge) => (
+                  {transferEdges.slice(0, 25).map((edge) => (
                     <tr key={`${edge.from}:${edge.to}`}>
                       <td>
                         <a
@@ -0,0 +1,18 @@
+import type { AddressLabel } from "@/lib/types";
+
+interface WalletLabelProps {
+  label: AddressLabel | undefined;
+}
+
+export function WalletLabel({ label }: WalletLabelProps): JSX.Element | null {
+  if (!label) {
+    return null;
+  }
+
+  return (
+    <span className="walletLabel">
+      {label.name}
+      <span>{label.kind}</span>
+    </span>
+  );
+}
@@ -0,0 +1,143 @@
+import { appConfig } from "@/lib/config";
+
+// Only Web Crypto is used here so the same helpers run in middleware (edge) and route handlers (node).
+
+export const ACCESS_SESSION_COOKIE = "bb_session";
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+type TokenKind = "challenge" | "session";
+
+export interface AccessChallenge {
+  wallet: string;
+  nonce: string;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export interface AccessSession {
+  wallet: string;
+  expiresAt: number;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (value: string): Uint8Array<ArrayBuffer> => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  const bytes = new Uint8Array(binary.length);
+
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+
+  return bytes;
+};
+
+const importSigningKey = async (): Promise<CryptoKey> => {
+  if (!appConfig.accessSessionSecret) {
+    throw new Error("BB_ACCESS_SESSION_SECRET is not configured");
+  }
+
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(appConfig.accessSessionSecret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+};
+
+const signToken = async (kind: TokenKind, payload: object): Promise<string> => {
+  const key = await importSigningKey();
+  const body = toBase64Url(encoder.encode(JSON.stringify({ ...payload, kind })));
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(body));
+
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+};
+
+const readToken = async <T extends { expiresAt: number }>(kind: TokenKind, token: string): Promise<T | null> => {
+  const [body, signature] = token.split(".");
+  if (!body || !signature) {
+    return null;
+  }
+
+  const key = await importSigningKey();
+
+  try {
+    const valid = await crypto.subtle.verify("HMAC", key, fromBase64Url(signature), encoder.encode(body));
+    if (!valid) {
+      return null;
+    }
+
+    const payload = JSON.parse(decoder.decode(fromBase64Url(body))) as T & { kind?: string };
+    if (payload.kind !== kind || typeof payload.expiresAt !== "number" || payload.expiresAt <= Date.now()) {
+      return null;
+    }
+
+    return payload;
+  } catch {
+    return null;
+  }
+};
+
+export const buildAccessMessage = (challenge: AccessChallenge): string => {
+  return [
+    "BB Tools access request",
+    `Wallet: ${challenge.wallet}`,
+    `Nonce: ${challenge.nonce}`,
+    `Issued At: ${new Date(challenge.issuedAt).toISOString()}`
+  ].join("\n");
+};
+
+export const issueAccessChallenge = async (
+  wallet: string
+): Promise<{ challenge: AccessChallenge; token: string; message: string }> => {
+  const issuedAt = Date.now();
+  const challenge: AccessChallenge = {
+    wallet,
+    nonce: toBase64Url(crypto.getRandomValues(new Uint8Array(18))),
+    issuedAt,
+    expiresAt: issuedAt + CHALLENGE_TTL_MS
+  };
+
+  return {
+    challenge,
+    token: await signToken("challenge", challenge),
+    message: buildAccessMessage(challenge)
+  };
+};
+
+export const readAccessChallenge = async (token: string): Promise<AccessChallenge | null> => {
+  return readToken<AccessChallenge>("challenge", token);
+};
+
+export const issueAccessSession = async (wallet: string): Promise<{ session: AccessSession; token: string }> => {
+  const session: AccessSession = {
+    wallet,
+    expiresAt: Date.now() + appConfig.accessSessionTtlMs
+  };
+
+  return {
+    session,
+    token: await signToken("session", session)
+  };
+};
+
+export const readAccessSession = async (token: string | undefined): Promise<AccessSession | null> => {
+  if (!token) {
+    return null;
+  }
+
+  return readToken<AccessSession>("session", token);
+};
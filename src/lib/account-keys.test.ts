@@ -0,0 +1,40 @@
+import type { ParsedTransactionWithMeta } from "@solana/web3.js";
+import { describe, expect, it } from "vitest";
+import { resolveAccountKeys } from "@/lib/account-keys";
+import loadedSwap from "@/lib/__fixtures__/v0-swap-loaded.json";
+import mergedSwap from "@/lib/__fixtures__/v0-swap-merged.json";
+
+// Both fixtures are the same v0 swap: four static keys, then two writable and one readonly lookup-table address.
+const EXPECTED_KEYS = [
+  "DhV9pk8xzysbYyLqwiaqxQRCB7S2Ps15YcokWRbWTXwj",
+  "FhugCbn8aWB4nut8HuhfPjhDb1XJQFfw7FnqELyncZa8",
+  "H2p2Cckd6RbML5Z8kLKAX1JRU2xENjvji9s7935mnuNV",
+  "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA",
+  "7WZKUEkKXFevtkxXgWHxYFeCqwPMx8V1KWj2nBLekFF5",
+  "AwsdNF3vysY95HHjjAUiTHTorysPr7V9axEpyXDDYXG4",
+  "9ALcSmUZoSHEpR1Hg5UqPGMSjm2jmJ2k9ysedwCCJT8L"
+];
+
+describe("resolveAccountKeys", () => {
+  it("keeps lookup-table addresses already merged into accountKeys without appending them again", () => {
+    const tx = mergedSwap as unknown as ParsedTransactionWithMeta;
+
+    expect(resolveAccountKeys(tx)).toEqual(EXPECTED_KEYS);
+  });
+
+  it("appends loaded addresses writable first, then readonly, when accountKeys only has static keys", () => {
+    const tx = loadedSwap as unknown as ParsedTransactionWithMeta;
+
+    expect(tx.transaction.message.accountKeys).toHaveLength(4);
+    expect(resolveAccountKeys(tx)).toEqual(EXPECTED_KEYS);
+  });
+
+  it("returns the static keys when the transaction loaded no addresses", () => {
+    const tx = {
+      ...loadedSwap,
+      meta: { ...loadedSwap.meta, loadedAddresses: undefined }
+    } as unknown as ParsedTransactionWithMeta;
+
+    expect(resolveAccountKeys(tx)).toEqual(EXPECTED_KEYS.slice(0, 4));
+  });
+});
@@ -0,0 +1,38 @@
+import { PublicKey, type ParsedTransactionWithMeta } from "@solana/web3.js";
+
+export const normalizeAccountKey = (value: unknown): string | null => {
+  if (typeof value === "string") {
+    return value;
+  }
+
+  if (value instanceof PublicKey) {
+    return value.toBase58();
+  }
+
+  if (value && typeof value === "object" && "pubkey" in value) {
+    return normalizeAccountKey((value as { pubkey: unknown }).pubkey);
+  }
+
+  return null;
+};
+
+/**
+ * Every account a transaction references, in the order balance and instruction indexes use: static keys, then
+ * addresses loaded from lookup tables, writable before readonly. `jsonParsed` responses usually list loaded addresses in
+ * `accountKeys` already (with `source: "lookupTable"`); they are only appended when missing. Unreadable entries stay
+ * as `null` so later indexes do not shift.
+ */
+export const resolveAccountKeys = (tx: ParsedTransactionWithMeta): Array<string | null> => {
+  const messageKeys = tx.transaction.message.accountKeys as unknown[];
+  const keys = messageKeys.map(normalizeAccountKey);
+
+  const alreadyMerged = messageKeys.some((key) => {
+    return Boolean(key && typeof key === "object" && (key as { source?: string }).source === "lookupTable");
+  });
+  const loaded = tx.meta?.loadedAddresses;
+  if (alreadyMerged || !loaded) {
+    return keys;
+  }
+
+  return [...keys, ...loaded.writable.map(normalizeAccountKey), ...loaded.readonly.map(normalizeAccountKey)];
+};
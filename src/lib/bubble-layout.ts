@@ -0,0 +1,263 @@
+import type { SnapshotEdge, SnapshotNode } from "@/lib/types";
+
+export type BubbleLayoutKind = "spiral" | "force";
+
+export interface LayoutInputNode extends SnapshotNode {
+  radius: number;
+}
+
+export interface PositionedNode extends LayoutInputNode {
+  x: number;
+  y: number;
+}
+
+export interface LayoutBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface BubbleLayout {
+  nodes: PositionedNode[];
+  bounds: LayoutBounds;
+}
+
+interface LayoutFrame {
+  width: number;
+  height: number;
+  padding: number;
+}
+
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+const FORCE_ITERATIONS = 150;
+const VELOCITY_DECAY = 0.6;
+const COLLISION_GAP = 3;
+const COLLISION_PASSES = 400;
+const FUNDING_LINK_STRENGTH = 0.05;
+
+const clamp = (value: number, min: number, max: number): number => {
+  return Math.min(max, Math.max(min, value));
+};
+
+const spiralPosition = (index: number, frame: LayoutFrame): { x: number; y: number } => {
+  const angle = index * GOLDEN_ANGLE;
+  const distance = 18 + Math.sqrt(index + 1) * 34;
+
+  return {
+    x: frame.width / 2 + Math.cos(angle) * distance,
+    y: frame.height / 2 + Math.sin(angle) * distance
+  };
+};
+
+/**
+ * Places nodes on a golden-angle spiral by rank, clamped to the frame.
+ */
+export const layoutSpiral = (nodes: LayoutInputNode[], frame: LayoutFrame): BubbleLayout => {
+  const positioned = nodes.map((node, index) => {
+    const { x, y } = spiralPosition(index, frame);
+
+    return {
+      ...node,
+      x: clamp(x, frame.padding, frame.width - frame.padding),
+      y: clamp(y, frame.padding, frame.height - frame.padding)
+    };
+  });
+
+  return {
+    nodes: positioned,
+    bounds: { x: 0, y: 0, width: frame.width, height: frame.height }
+  };
+};
+
+// One relaxation pass over overlapping pairs, using a uniform grid so only nearby bubbles are compared.
+// Returns whether any overlap was found.
+const resolveCollisions = (nodes: PositionedNode[], strength: number): boolean => {
+  const maxRadius = Math.max(...nodes.map((node) => node.radius), 1);
+  const cellSize = 2 * maxRadius + COLLISION_GAP;
+  const grid = new Map<number, number[]>();
+  const cellKey = (cellX: number, cellY: number): number => cellX * 65_536 + cellY;
+  let overlapped = false;
+
+  nodes.forEach((node, index) => {
+    const key = cellKey(Math.floor(node.x / cellSize), Math.floor(node.y / cellSize));
+    const cell = grid.get(key) ?? [];
+    cell.push(index);
+    grid.set(key, cell);
+  });
+
+  nodes.forEach((a, i) => {
+    const cellX = Math.floor(a.x / cellSize);
+    const cellY = Math.floor(a.y / cellSize);
+
+    for (let offsetX = -1; offsetX <= 1; offsetX += 1) {
+      for (let offsetY = -1; offsetY <= 1; offsetY += 1) {
+        for (const j of grid.get(cellKey(cellX + offsetX, cellY + offsetY)) ?? []) {
+          const b = nodes[j];
+          if (j <= i || !b) {
+            continue;
+          }
+
+          const minDistance = a.radius + b.radius + COLLISION_GAP;
+          let dx = b.x - a.x;
+          let dy = b.y - a.y;
+          let distance = Math.hypot(dx, dy);
+
+          if (distance >= minDistance) {
+            continue;
+          }
+
+          if (distance === 0) {
+            // Deterministic nudge for exactly overlapping centers.
+            dx = Math.cos(i + j);
+            dy = Math.sin(i + j);
+            distance = 1;
+          }
+
+          // Sub-pixel overlaps inside the gap are invisible; don't keep relaxing for them.
+          overlapped = overlapped || minDistance - distance > COLLISION_GAP / 2;
+
+          const overlap = ((minDistance - distance) / distance) * strength;
+          const shareA = b.radius / (a.radius + b.radius);
+          const shareB = 1 - shareA;
+
+          a.x -= dx * overlap * shareA;
+          a.y -= dy * overlap * shareA;
+          b.x += dx * overlap * shareB;
+          b.y += dy * overlap * shareB;
+        }
+      }
+    }
+  });
+
+  return overlapped;
+};
+
+const computeBounds = (nodes: PositionedNode[], frame: LayoutFrame): LayoutBounds => {
+  if (nodes.length === 0) {
+    return { x: 0, y: 0, width: frame.width, height: frame.height };
+  }
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  for (const node of nodes) {
+    minX = Math.min(minX, node.x - node.radius);
+    minY = Math.min(minY, node.y - node.radius);
+    maxX = Math.max(maxX, node.x + node.radius);
+    maxY = Math.max(maxY, node.y + node.radius);
+  }
+
+  // Grow the box to the frame's aspect ratio so the map never looks squashed.
+  let width = maxX - minX + frame.padding;
+  let height = maxY - minY + frame.padding;
+  const aspect = frame.width / frame.height;
+  if (width / height > aspect) {
+    height = width / aspect;
+  } else {
+    width = height * aspect;
+  }
+
+  const centerX = (minX + maxX) / 2;
+  const centerY = (minY + maxY) / 2;
+
+  return { x: centerX - width / 2, y: centerY - height / 2, width, height };
+};
+
+/**
+ * Deterministic force simulation seeded from the spiral: link attraction weighted by edge amount, pull towards the
+ * node's cluster centroid, and radius-based collision. The same input always produces the same positions.
+ */
+export const layoutForce = (nodes: LayoutInputNode[], edges: SnapshotEdge[], frame: LayoutFrame): BubbleLayout => {
+  const seeded: PositionedNode[] = nodes.map((node, index) => ({ ...node, ...spiralPosition(index, frame) }));
+  const velocities = seeded.map(() => ({ x: 0, y: 0 }));
+  const indexByAddress = new Map(seeded.map((node, index) => [node.address, index]));
+  const maxAmount = Math.max(...edges.filter((edge) => edge.kind !== "funding").map((edge) => edge.amountSum), 1);
+  const centerX = frame.width / 2;
+  const centerY = frame.height / 2;
+
+  const links = edges
+    .map((edge) => ({
+      source: indexByAddress.get(edge.from),
+      target: indexByAddress.get(edge.to),
+      // Funding amounts are in GOR rather than the token, so funding links pull with a fixed, light strength.
+      strength:
+        edge.kind === "funding"
+          ? FUNDING_LINK_STRENGTH
+          : 0.03 + 0.12 * (Math.log10(1 + edge.amountSum) / Math.log10(1 + maxAmount))
+    }))
+    .filter(
+      (link): link is { source: number; target: number; strength: number } =>
+        link.source !== undefined && link.target !== undefined && link.source !== link.target
+    );
+
+  for (let iteration = 0; iteration < FORCE_ITERATIONS; iteration += 1) {
+    const alpha = 1 - iteration / FORCE_ITERATIONS;
+
+    for (const link of links) {
+      const source = seeded[link.source];
+      const target = seeded[link.target];
+      const sourceVelocity = velocities[link.source];
+      const targetVelocity = velocities[link.target];
+      if (!source || !target || !sourceVelocity || !targetVelocity) {
+        continue;
+      }
+
+      const dx = target.x - source.x;
+      const dy = target.y - source.y;
+      const distance = Math.hypot(dx, dy) || 1;
+      const desired = source.radius + target.radius + 18;
+      const pull = ((distance - desired) / distance) * link.strength * alpha;
+
+      sourceVelocity.x += dx * pull * 0.5;
+      sourceVelocity.y += dy * pull * 0.5;
+      targetVelocity.x -= dx * pull * 0.5;
+      targetVelocity.y -= dy * pull * 0.5;
+    }
+
+    const centroids = new Map<number, { x: number; y: number; count: number }>();
+    for (const node of seeded) {
+      const centroid = centroids.get(node.clusterId) ?? { x: 0, y: 0, count: 0 };
+      centroid.x += node.x;
+      centroid.y += node.y;
+      centroid.count += 1;
+      centroids.set(node.clusterId, centroid);
+    }
+
+    seeded.forEach((node, index) => {
+      const velocity = velocities[index];
+      const centroid = centroids.get(node.clusterId);
+      if (!velocity) {
+        return;
+      }
+
+      if (centroid && centroid.count > 1) {
+        velocity.x += (centroid.x / centroid.count - node.x) * 0.05 * alpha;
+        velocity.y += (centroid.y / centroid.count - node.y) * 0.05 * alpha;
+      }
+
+      velocity.x += (centerX - node.x) * 0.012 * alpha;
+      velocity.y += (centerY - node.y) * 0.012 * alpha;
+
+      velocity.x *= VELOCITY_DECAY;
+      velocity.y *= VELOCITY_DECAY;
+      node.x += velocity.x;
+      node.y += velocity.y;
+    });
+
+    resolveCollisions(seeded, 0.7);
+  }
+
+  for (let pass = 0; pass < COLLISION_PASSES; pass += 1) {
+    if (!resolveCollisions(seeded, 1)) {
+      break;
+    }
+  }
+
+  return {
+    nodes: seeded,
+    bounds: computeBounds(seeded, frame)
+  };
+};
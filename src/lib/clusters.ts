@@ -0,0 +1,233 @@
+import type { HolderCluster, SnapshotEdge, SnapshotNode } from "@/lib/types";
+
+export interface ClusterGraph {
+  clusters: HolderCluster[];
+  nodeToCluster: Map<string, HolderCluster>;
+}
+
+interface LevelGraph {
+  neighbors: Array<Map<number, number>>;
+  selfWeights: number[];
+}
+
+const MAX_LOCAL_PASSES = 32;
+const MAX_LEVELS = 16;
+const GAIN_EPSILON = 1e-12;
+
+/**
+ * Undirected weight of a transfer edge. Volume is log-scaled so one whale transfer does not outweigh repeated
+ * activity, and every transaction adds a unit so frequent small transfers still bind wallets together.
+ */
+export const clusterEdgeWeight = (edge: Pick<SnapshotEdge, "amountSum" | "txCount">): number => {
+  return Math.log10(1 + Math.max(0, edge.amountSum)) + Math.max(0, edge.txCount);
+};
+
+const buildInitialGraph = (nodes: SnapshotNode[], edges: SnapshotEdge[]): LevelGraph => {
+  const indexByAddress = new Map(nodes.map((node, index) => [node.address, index]));
+  const neighbors = nodes.map(() => new Map<number, number>());
+
+  for (const edge of edges) {
+    const from = indexByAddress.get(edge.from);
+    const to = indexByAddress.get(edge.to);
+    if (from === undefined || to === undefined || from === to) {
+      continue;
+    }
+
+    const weight = clusterEdgeWeight(edge);
+    if (weight <= 0) {
+      continue;
+    }
+
+    neighbors[from]?.set(to, (neighbors[from]?.get(to) ?? 0) + weight);
+    neighbors[to]?.set(from, (neighbors[to]?.get(from) ?? 0) + weight);
+  }
+
+  return { neighbors, selfWeights: nodes.map(() => 0) };
+};
+
+const nodeDegree = (graph: LevelGraph, index: number): number => {
+  let degree = 2 * (graph.selfWeights[index] ?? 0);
+  for (const weight of graph.neighbors[index]?.values() ?? []) {
+    degree += weight;
+  }
+
+  return degree;
+};
+
+// Louvain phase one: move single nodes between neighbouring communities while modularity improves.
+const moveNodes = (graph: LevelGraph): { communities: number[]; moved: boolean } => {
+  const size = graph.neighbors.length;
+  const degrees = Array.from({ length: size }, (_, index) => nodeDegree(graph, index));
+  const totalDegree = degrees.reduce((sum, degree) => sum + degree, 0);
+  const communities = Array.from({ length: size }, (_, index) => index);
+  const communityDegrees = [...degrees];
+  let moved = false;
+
+  if (totalDegree === 0) {
+    return { communities, moved };
+  }
+
+  for (let pass = 0; pass < MAX_LOCAL_PASSES; pass += 1) {
+    let movedThisPass = false;
+
+    for (let index = 0; index < size; index += 1) {
+      const current = communities[index] ?? index;
+      const degree = degrees[index] ?? 0;
+      const weightsToCommunities = new Map<number, number>();
+
+      for (const [neighbor, weight] of graph.neighbors[index] ?? []) {
+        const community = communities[neighbor] ?? neighbor;
+        weightsToCommunities.set(community, (weightsToCommunities.get(community) ?? 0) + weight);
+      }
+
+      communityDegrees[current] = (communityDegrees[current] ?? 0) - degree;
+
+      let bestCommunity = current;
+      let bestGain =
+        (weightsToCommunities.get(current) ?? 0) - ((communityDegrees[current] ?? 0) * degree) / totalDegree;
+
+      for (const [community, weight] of weightsToCommunities) {
+        const gain = weight - ((communityDegrees[community] ?? 0) * degree) / totalDegree;
+        if (gain > bestGain + GAIN_EPSILON) {
+          bestGain = gain;
+          bestCommunity = community;
+        }
+      }
+
+      communityDegrees[bestCommunity] = (communityDegrees[bestCommunity] ?? 0) + degree;
+
+      if (bestCommunity !== current) {
+        communities[index] = bestCommunity;
+        movedThisPass = true;
+        moved = true;
+      }
+    }
+
+    if (!movedThisPass) {
+      break;
+    }
+  }
+
+  return { communities, moved };
+};
+
+// Louvain phase two: collapse each community into one node, keeping internal weight as a self loop.
+const aggregateGraph = (graph: LevelGraph, communities: number[]): { graph: LevelGraph; mapping: number[] } => {
+  const renumbered = new Map<number, number>();
+  const mapping = communities.map((community) => {
+    const existing = renumbered.get(community);
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    const next = renumbered.size;
+    renumbered.set(community, next);
+    return next;
+  });
+
+  const neighbors = Array.from({ length: renumbered.size }, () => new Map<number, number>());
+  const selfWeights = Array.from({ length: renumbered.size }, () => 0);
+
+  graph.neighbors.forEach((edges, index) => {
+    const from = mapping[index] ?? 0;
+    selfWeights[from] = (selfWeights[from] ?? 0) + (graph.selfWeights[index] ?? 0);
+
+    for (const [neighbor, weight] of edges) {
+      const to = mapping[neighbor] ?? 0;
+      if (from === to) {
+        // Each undirected edge is listed from both ends.
+        selfWeights[from] = (selfWeights[from] ?? 0) + weight / 2;
+        continue;
+      }
+
+      neighbors[from]?.set(to, (neighbors[from]?.get(to) ?? 0) + weight);
+    }
+  });
+
+  return { graph: { neighbors, selfWeights }, mapping };
+};
+
+/**
+ * Weighted Louvain community detection. Returns a community index per node; deterministic for a given node order.
+ */
+export const detectCommunities = (nodes: SnapshotNode[], edges: SnapshotEdge[]): number[] => {
+  let graph = buildInitialGraph(nodes, edges);
+  let membership = nodes.map((_, index) => index);
+
+  for (let level = 0; level < MAX_LEVELS; level += 1) {
+    const { communities, moved } = moveNodes(graph);
+    if (!moved) {
+      break;
+    }
+
+    const aggregated = aggregateGraph(graph, communities);
+    membership = membership.map((community) => aggregated.mapping[community] ?? community);
+    graph = aggregated.graph;
+  }
+
+  return membership;
+};
+
+/**
+ * Rebuilds the lookup map for clusters that already came with a snapshot.
+ */
+export const indexClusters = (clusters: HolderCluster[]): ClusterGraph => {
+  const nodeToCluster = new Map<string, HolderCluster>();
+  for (const cluster of clusters) {
+    for (const address of cluster.nodeAddresses) {
+      nodeToCluster.set(address, cluster);
+    }
+  }
+
+  return { clusters, nodeToCluster };
+};
+
+/**
+ * Groups holders into weighted communities and summarizes each one. Cluster ids are ranked by supply share.
+ */
+export const computeClusters = (nodes: SnapshotNode[], edges: SnapshotEdge[]): ClusterGraph => {
+  const membership = detectCommunities(nodes, edges);
+  const membersByCommunity = new Map<number, SnapshotNode[]>();
+
+  nodes.forEach((node, index) => {
+    const community = membership[index] ?? index;
+    const members = membersByCommunity.get(community) ?? [];
+    members.push(node);
+    membersByCommunity.set(community, members);
+  });
+
+  const clusters: HolderCluster[] = [...membersByCommunity.values()]
+    .map((members) => {
+      const memberSet = new Set(members.map((member) => member.address));
+      const clusterEdges = edges.filter((edge) => memberSet.has(edge.from) && memberSet.has(edge.to));
+
+      return {
+        id: 0,
+        nodeAddresses: members.map((member) => member.address),
+        totalPctSupply: members.reduce((sum, member) => sum + member.pctSupply, 0),
+        totalBalance: members.reduce((sum, member) => sum + member.balance, 0),
+        edgeCount: clusterEdges.length,
+        // Funding edges carry GOR, not the token, so they count as edges but not towards the transferred amount.
+        transferAmount: clusterEdges.reduce((sum, edge) => sum + (edge.kind === "funding" ? 0 : edge.amountSum), 0)
+      };
+    })
+    .sort((a, b) => b.totalPctSupply - a.totalPctSupply)
+    .map((cluster, index) => ({ ...cluster, id: index + 1 }));
+
+  return indexClusters(clusters);
+};
+
+/**
+ * Returns nodes tagged with their cluster id plus the cluster summaries, ready to ship on a `TokenSnapshot`.
+ */
+export const assignClusters = (
+  nodes: SnapshotNode[],
+  edges: SnapshotEdge[]
+): { nodes: SnapshotNode[]; clusters: HolderCluster[] } => {
+  const { clusters, nodeToCluster } = computeClusters(nodes, edges);
+
+  return {
+    nodes: nodes.map((node) => ({ ...node, clusterId: nodeToCluster.get(node.address)?.id ?? 0 })),
+    clusters
+  };
+};
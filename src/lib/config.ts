@@ -1,3 +1,5 @@
+import { parseEdgeCollectionMode } from "@/lib/scan-params";
+
 const parseIntWithDefault = (value: string | undefined, fallback: number): number => {
   const parsed = Number.parseInt(value ?? "", 10);
   return Number.isFinite(parsed) ? parsed : fallback;
@@ -7,16 +9,61 @@ const clamp = (value: number, min: number, max: number): number => {
   return Math.min(max, Math.max(min, value));
 };
 
+const parseList = (value: string | undefined): string[] => {
+  return (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+};
+
+const rpcUrl = process.env.GORBAGANA_RPC_URL ?? "https://rpc.gorbagana.wtf/";
+const rpcUrls = parseList(process.env.GORBAGANA_RPC_URLS);
+
 export const appConfig = {
-  rpcUrl: process.env.GORBAGANA_RPC_URL ?? "https://rpc.gorbagana.wtf/",
+  rpcUrl,
+  // Ordered by preference; GORBAGANA_RPC_URL stays the only endpoint unless a list is configured.
+  rpcUrls: rpcUrls.length > 0 ? rpcUrls : [rpcUrl],
+  rpcMaxConcurrencyPerEndpoint: clamp(parseIntWithDefault(process.env.RPC_MAX_CONCURRENCY_PER_ENDPOINT, 8), 1, 64),
+  rpcMaxRetries: clamp(parseIntWithDefault(process.env.RPC_MAX_RETRIES, 4), 0, 10),
+  rpcBackoffBaseMs: clamp(parseIntWithDefault(process.env.RPC_BACKOFF_BASE_MS, 300), 50, 10_000),
+  rpcRequestTimeoutMs: clamp(parseIntWithDefault(process.env.RPC_REQUEST_TIMEOUT_MS, 30_000), 1_000, 120_000),
+  txCacheMaxEntries: clamp(parseIntWithDefault(process.env.TX_CACHE_MAX_ENTRIES, 5000), 0, 200_000),
+  // Empty disables the on-disk tier of the parsed-transaction cache.
+  txCacheDir: process.env.TX_CACHE_DIR ?? "",
   holderLimit: clamp(parseIntWithDefault(process.env.SNAPSHOT_HOLDER_LIMIT, 120), 20, 300),
   edgeWalletLimit: clamp(parseIntWithDefault(process.env.SNAPSHOT_EDGE_WALLET_LIMIT, 30), 5, 80),
-  txLimit: clamp(parseIntWithDefault(process.env.SNAPSHOT_TX_LIMIT, 120), 20, 400),
+  txLimit: clamp(parseIntWithDefault(process.env.SNAPSHOT_TX_LIMIT, 120), 20, 2000),
   maxSignatures: clamp(parseIntWithDefault(process.env.SNAPSHOT_MAX_SIGNATURES, 1500), 100, 5000),
+  sinceHours: clamp(parseIntWithDefault(process.env.SNAPSHOT_SINCE_HOURS, 0), 0, 8760),
+  edgeMode: parseEdgeCollectionMode(process.env.SNAPSHOT_EDGE_MODE, "wallets"),
+  excludeProgramHolders: process.env.SNAPSHOT_EXCLUDE_PROGRAM_HOLDERS === "true",
+  metricsExcludeLabeled: process.env.SNAPSHOT_METRICS_EXCLUDE_LABELED === "true",
+  fundingEdges: process.env.SNAPSHOT_FUNDING_EDGES === "true",
+  clusterFunding: process.env.SNAPSHOT_CLUSTER_FUNDING === "true",
+  // Signature pages (1000 each) walked back per wallet to find its first funder.
+  fundingMaxPages: clamp(parseIntWithDefault(process.env.SNAPSHOT_FUNDING_MAX_PAGES, 3), 1, 20),
+  detectSnipers: process.env.SNAPSHOT_DETECT_SNIPERS === "true",
+  sniperSlots: clamp(parseIntWithDefault(process.env.SNAPSHOT_SNIPER_SLOTS, 10), 1, 1000),
+  // Signature pages walked back on the mint to reach its creation, and launch transactions parsed after that.
+  sniperMaxPages: clamp(parseIntWithDefault(process.env.SNAPSHOT_SNIPER_MAX_PAGES, 5), 1, 50),
+  sniperMaxTransactions: clamp(parseIntWithDefault(process.env.SNAPSHOT_SNIPER_MAX_TRANSACTIONS, 200), 10, 1000),
   snapshotTtlMs: clamp(parseIntWithDefault(process.env.SNAPSHOT_TTL_MS, 30 * 60 * 1000), 5_000, 3 * 60 * 60 * 1000),
+  holderScanTtlMs: clamp(parseIntWithDefault(process.env.HOLDER_SCAN_TTL_MS, 5 * 60 * 1000), 5_000, 3 * 60 * 60 * 1000),
   livePollIntervalMs: clamp(parseIntWithDefault(process.env.LIVE_POLL_INTERVAL_MS, 8_000), 2_000, 60_000),
   liveForceRefreshMs: clamp(parseIntWithDefault(process.env.LIVE_FORCE_REFRESH_MS, 10 * 60 * 1000), 60_000, 60 * 60 * 1000),
-  liveHeartbeatMs: clamp(parseIntWithDefault(process.env.LIVE_HEARTBEAT_MS, 20_000), 5_000, 60_000)
+  snapshotStoreBackend: process.env.SNAPSHOT_STORE === "memory" ? "memory" : "file",
+  snapshotStoreDir: process.env.SNAPSHOT_STORE_DIR ?? ".data/snapshots",
+  // JSON object of `{ "<address>": { "name": "...", "kind": "pool" } }`; `null` hides a built-in label.
+  addressLabelsFile: process.env.ADDRESS_LABELS_FILE ?? ".data/labels.json",
+  snapshotStoreMaxPerMint: clamp(parseIntWithDefault(process.env.SNAPSHOT_STORE_MAX_PER_MINT, 200), 1, 5000),
+  liveHeartbeatMs: clamp(parseIntWithDefault(process.env.LIVE_HEARTBEAT_MS, 20_000), 5_000, 60_000),
+  accessGateEnabled: process.env.ENABLE_BB_ACCESS_GATE !== "false",
+  accessSessionSecret: process.env.BB_ACCESS_SESSION_SECRET ?? "",
+  accessSessionTtlMs: clamp(
+    parseIntWithDefault(process.env.BB_ACCESS_SESSION_TTL_MS, 12 * 60 * 60 * 1000),
+    5 * 60 * 1000,
+    7 * 24 * 60 * 60 * 1000
+  )
 };
 
 export const parseLimitParam = (
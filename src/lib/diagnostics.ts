@@ -0,0 +1,51 @@
+import type { ScanDiagnostics, ScanFailure, ScanFailureScope } from "@/lib/types";
+
+export interface DiagnosticsRecorder {
+  succeed: (count?: number) => void;
+  fail: (scope: ScanFailureScope, target: string, error: unknown) => void;
+  finish: () => ScanDiagnostics;
+}
+
+const toCoverage = (attempted: number, succeeded: number): number => {
+  return attempted > 0 ? succeeded / attempted : 1;
+};
+
+/**
+ * Tracks which units of a scan (wallets, programs, transaction chunks) were fetched and which failed, so callers can
+ * keep going with partial data without hiding it.
+ */
+export const createDiagnosticsRecorder = (): DiagnosticsRecorder => {
+  let attempted = 0;
+  let succeeded = 0;
+  const failures: ScanFailure[] = [];
+
+  return {
+    succeed: (count = 1) => {
+      attempted += count;
+      succeeded += count;
+    },
+    fail: (scope, target, error) => {
+      attempted += 1;
+      failures.push({ scope, target, message: error instanceof Error ? error.message : String(error) });
+    },
+    finish: () => ({
+      attempted,
+      succeeded,
+      coverage: toCoverage(attempted, succeeded),
+      failures: [...failures]
+    })
+  };
+};
+
+export const mergeDiagnostics = (...items: Array<ScanDiagnostics | undefined>): ScanDiagnostics => {
+  const present = items.filter((item): item is ScanDiagnostics => Boolean(item));
+  const attempted = present.reduce((sum, item) => sum + item.attempted, 0);
+  const succeeded = present.reduce((sum, item) => sum + item.succeeded, 0);
+
+  return {
+    attempted,
+    succeeded,
+    coverage: toCoverage(attempted, succeeded),
+    failures: present.flatMap((item) => item.failures)
+  };
+};
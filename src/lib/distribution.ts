@@ -0,0 +1,63 @@
+import type { DistributionMetrics } from "@/lib/types";
+
+const shareOfTop = (sortedDescending: number[], count: number, total: number): number => {
+  if (total <= 0) {
+    return 0;
+  }
+
+  const held = sortedDescending.slice(0, count).reduce((sum, balance) => sum + balance, 0);
+  return (held / total) * 100;
+};
+
+/**
+ * Concentration figures over every holder with a positive balance. Shares are relative to the total those holders
+ * hold, so excluded pools or burn addresses do not count towards the denominator either.
+ */
+export const computeDistributionMetrics = (balances: number[], excludedLabeled = 0): DistributionMetrics => {
+  const sorted = balances.filter((balance) => balance > 0).sort((a, b) => b - a);
+  const total = sorted.reduce((sum, balance) => sum + balance, 0);
+  const count = sorted.length;
+
+  if (count === 0 || total <= 0) {
+    return {
+      holderCount: 0,
+      gini: 0,
+      hhi: 0,
+      holdersToHalf: 0,
+      top10Pct: 0,
+      top50Pct: 0,
+      top100Pct: 0,
+      excludedLabeled
+    };
+  }
+
+  // Gini over ascending ranks: sum((2i - n - 1) * x_i) / (n * total), with i starting at 1.
+  let weighted = 0;
+  let hhi = 0;
+  let running = 0;
+  let holdersToHalf = 0;
+
+  sorted.forEach((balance, index) => {
+    const ascendingRank = count - index;
+    weighted += (2 * ascendingRank - count - 1) * balance;
+
+    const share = (balance / total) * 100;
+    hhi += share * share;
+
+    if (running < total / 2) {
+      running += balance;
+      holdersToHalf += 1;
+    }
+  });
+
+  return {
+    holderCount: count,
+    gini: weighted / (count * total),
+    hhi,
+    holdersToHalf,
+    top10Pct: shareOfTop(sorted, 10, total),
+    top50Pct: shareOfTop(sorted, 50, total),
+    top100Pct: shareOfTop(sorted, 100, total),
+    excludedLabeled
+  };
+};
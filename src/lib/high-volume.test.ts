@@ -0,0 +1,35 @@
+import type { ParsedTransactionWithMeta } from "@solana/web3.js";
+import { describe, expect, it } from "vitest";
+import { extractOwnerLamportDeltas, extractOwnerMintDeltas } from "@/lib/high-volume";
+import loadedSwap from "@/lib/__fixtures__/v0-swap-loaded.json";
+import mergedSwap from "@/lib/__fixtures__/v0-swap-merged.json";
+
+const TRADER = "DhV9pk8xzysbYyLqwiaqxQRCB7S2Ps15YcokWRbWTXwj";
+const POOL_AUTHORITY = "H2q7t8TRr16RBzcpqAzLqpsb7rhV6Xb4MgKbdc2eUtGF";
+const POOL_VAULT = "AwsdNF3vysY95HHjjAUiTHTorysPr7V9axEpyXDDYXG4";
+const MINT = "9ALcSmUZoSHEpR1Hg5UqPGMSjm2jmJ2k9ysedwCCJT8L";
+
+// The pool's token account and native vault are only reachable through the lookup table, so both fixtures must
+// resolve them to produce the pool side of the swap.
+describe.each([
+  ["merged lookup-table keys", mergedSwap],
+  ["appended loaded addresses", loadedSwap]
+])("swap deltas with %s", (_, fixture) => {
+  const tx = fixture as unknown as ParsedTransactionWithMeta;
+
+  it("nets token balances per owner and mint", () => {
+    expect(extractOwnerMintDeltas(tx)).toEqual([
+      { owner: TRADER, mint: MINT, decimals: 6, deltaRaw: 250_000_000n },
+      { owner: POOL_AUTHORITY, mint: MINT, decimals: 6, deltaRaw: -250_000_000n }
+    ]);
+  });
+
+  it("reports lamport changes for static and loaded accounts", () => {
+    expect(extractOwnerLamportDeltas(tx)).toEqual(
+      new Map([
+        [TRADER, -1_000_005_000n],
+        [POOL_VAULT, 1_000_000_000n]
+      ])
+    );
+  });
+});
@@ -1,5 +1,12 @@
 import { PublicKey, type ParsedTransactionWithMeta, type TokenBalance } from "@solana/web3.js";
+import { resolveAccountKeys } from "@/lib/account-keys";
+import { createDiagnosticsRecorder } from "@/lib/diagnostics";
+import { classifyHolders } from "@/lib/holder-kinds";
+import { labelProgramPools, loadAddressLabels } from "@/lib/labels";
+import { getProgramSources } from "@/lib/program-sources";
 import { getConnection } from "@/lib/rpc";
+import { emptyTxCacheUsage, fetchParsedTransactionsCached } from "@/lib/tx-cache";
+import type { AddressLabel, ScanDiagnostics, TxCacheUsage } from "@/lib/types";
 
 const WRAPPED_SOL_MINT = "So11111111111111111111111111111111111111112";
 const LAMPORTS_PER_GOR = 1_000_000_000;
@@ -19,6 +26,7 @@ export interface HighVolumeBoardEntry {
   sellTxCount: number;
   tokenCount: number;
   lastActivity: number | null;
+  label?: AddressLabel;
 }
 
 export interface HighVolumeBoardSnapshot {
@@ -27,11 +35,8 @@ export interface HighVolumeBoardSnapshot {
   scannedSignatures: number;
   scannedTransactions: number;
   minTotalGor: number;
-}
-
-interface ProgramSource {
-  source: "bang.meme" | "trashbin.fun";
-  address: PublicKey;
+  diagnostics: ScanDiagnostics;
+  txCache: TxCacheUsage;
 }
 
 interface AggregateEntry {
@@ -50,7 +55,7 @@ interface CachedBoard {
   snapshot: HighVolumeBoardSnapshot;
 }
 
-interface OwnerMintDelta {
+export interface OwnerMintDelta {
   owner: string;
   mint: string;
   deltaRaw: bigint;
@@ -59,17 +64,6 @@ interface OwnerMintDelta {
 
 const boardCache = new Map<string, CachedBoard>();
 
-const parseProgramList = (value: string | undefined, defaults: string[]): string[] => {
-  if (!value) {
-    return defaults;
-  }
-
-  return value
-    .split(",")
-    .map((item) => item.trim())
-    .filter((item) => item.length > 0);
-};
-
 const parsePositiveNumber = (value: string | undefined, fallback: number): number => {
   if (!value) {
     return fallback;
@@ -91,46 +85,6 @@ const normalizeMinTotalGor = (value: number | undefined): number => {
   return parsePositiveNumber(process.env.HIGH_VOLUME_MIN_TOTAL_GOR, DEFAULT_MIN_TOTAL_GOR);
 };
 
-const getProgramSources = (): ProgramSource[] => {
-  const bangPrograms = parseProgramList(process.env.HIGH_VOLUME_BANG_PROGRAM_IDS, [
-    "BANGM1VB3At4Edot22MV5NGCEENcEsdxsURM9X4iQpQf",
-    "BANGS1E3rw36jue2sL1xLDp4cMxHm2Cc5bQRSAkz9BGr",
-    "BANG11ZNGMexiuLDqqifVoW7mfX2BKLYLwzNPhJrAwnN",
-    "6T6Ud5gQWwbcG6b7SixvukR3scT1GTqot37y3ztAG7eH",
-    "6YWQdKjPb1m6VZMFCrtuSpYKqubcj7RRt22ePR3GQq2h"
-  ]);
-  const trashbinPrograms = parseProgramList(process.env.HIGH_VOLUME_TRASHBIN_PROGRAM_IDS, [
-    "BAEZRQHD9aZky1yNeXjv7yHAXXeZ2B8QHtXmy8gn5ETZ",
-    "DYgGxvJD8GTYQSGFmT4RUab5TJ7W3m7Vrbg2UueNzAq8"
-  ]);
-
-  const sources: ProgramSource[] = [];
-
-  for (const programId of bangPrograms) {
-    try {
-      sources.push({
-        source: "bang.meme",
-        address: new PublicKey(programId)
-      });
-    } catch {
-      // Ignore invalid env values and continue with other programs.
-    }
-  }
-
-  for (const programId of trashbinPrograms) {
-    try {
-      sources.push({
-        source: "trashbin.fun",
-        address: new PublicKey(programId)
-      });
-    } catch {
-      // Ignore invalid env values and continue with other programs.
-    }
-  }
-
-  return sources;
-};
-
 const keyForOwnerMint = (owner: string, mint: string): string => `${owner}:${mint}`;
 
 const parseRawAmount = (balance: TokenBalance): bigint => {
@@ -146,43 +100,15 @@ const parseRawAmount = (balance: TokenBalance): bigint => {
   }
 };
 
-const normalizeTokenAccountKey = (tx: ParsedTransactionWithMeta, accountIndex: number): string | null => {
-  const key = tx.transaction.message.accountKeys[accountIndex];
-
-  if (!key) {
-    return null;
-  }
-
-  if (typeof key === "string") {
-    return key;
-  }
-
-  if (typeof key === "object" && "pubkey" in key) {
-    const pubkey = key.pubkey;
-    if (typeof pubkey === "string") {
-      return pubkey;
-    }
-
-    if (pubkey instanceof PublicKey) {
-      return pubkey.toBase58();
-    }
-  }
-
-  if (key instanceof PublicKey) {
-    return key.toBase58();
-  }
-
-  return null;
-};
-
-const extractOwnerMintDeltas = (tx: ParsedTransactionWithMeta): OwnerMintDelta[] => {
+export const extractOwnerMintDeltas = (tx: ParsedTransactionWithMeta): OwnerMintDelta[] => {
   const pre = tx.meta?.preTokenBalances ?? [];
   const post = tx.meta?.postTokenBalances ?? [];
+  const accountKeys = resolveAccountKeys(tx);
 
   const tokenAccountToOwnerMint = new Map<string, { owner: string; mint: string; decimals: number }>();
 
   for (const balance of [...pre, ...post]) {
-    const accountKey = normalizeTokenAccountKey(tx, balance.accountIndex);
+    const accountKey = accountKeys[balance.accountIndex];
     if (!accountKey || !balance.owner || !balance.mint) {
       continue;
     }
@@ -197,7 +123,7 @@ const extractOwnerMintDeltas = (tx: ParsedTransactionWithMeta): OwnerMintDelta[]
   const states = new Map<string, { owner: string; mint: string; decimals: number; pre: bigint; post: bigint }>();
 
   for (const balance of pre) {
-    const accountKey = normalizeTokenAccountKey(tx, balance.accountIndex);
+    const accountKey = accountKeys[balance.accountIndex];
     if (!accountKey) {
       continue;
     }
@@ -221,7 +147,7 @@ const extractOwnerMintDeltas = (tx: ParsedTransactionWithMeta): OwnerMintDelta[]
   }
 
   for (const balance of post) {
-    const accountKey = normalizeTokenAccountKey(tx, balance.accountIndex);
+    const accountKey = accountKeys[balance.accountIndex];
     if (!accountKey) {
       continue;
     }
@@ -263,14 +189,15 @@ const extractOwnerMintDeltas = (tx: ParsedTransactionWithMeta): OwnerMintDelta[]
   return deltas;
 };
 
-const extractOwnerLamportDeltas = (tx: ParsedTransactionWithMeta): Map<string, bigint> => {
+export const extractOwnerLamportDeltas = (tx: ParsedTransactionWithMeta): Map<string, bigint> => {
   const result = new Map<string, bigint>();
   const preBalances = tx.meta?.preBalances ?? [];
   const postBalances = tx.meta?.postBalances ?? [];
   const count = Math.min(preBalances.length, postBalances.length);
+  const accountKeys = resolveAccountKeys(tx);
 
   for (let index = 0; index < count; index += 1) {
-    const owner = normalizeTokenAccountKey(tx, index);
+    const owner = accountKeys[index];
     if (!owner) {
       continue;
     }
@@ -441,13 +368,16 @@ export const buildHighVolumeBoard = async (
   }
 
   const programs = getProgramSources();
+  const diagnostics = createDiagnosticsRecorder();
   if (programs.length === 0) {
     return {
       timestamp: Date.now(),
       entries: [],
       scannedSignatures: 0,
       scannedTransactions: 0,
-      minTotalGor: safeMinTotalGor
+      minTotalGor: safeMinTotalGor,
+      diagnostics: diagnostics.finish(),
+      txCache: emptyTxCacheUsage()
     };
   }
 
@@ -466,33 +396,20 @@ export const buildHighVolumeBoard = async (
           set.add(program.source);
           signatureSources.set(signatureInfo.signature, set);
         }
-      } catch {
-        // Ignore unavailable programs and continue with remaining sources.
+        diagnostics.succeed();
+      } catch (error) {
+        // Continue with the remaining sources; the missing program is reported in diagnostics.
+        diagnostics.fail("program", program.address.toBase58(), error);
       }
     })
   );
 
   const signatures = [...signatureSources.keys()];
-  const parsedTransactions: ParsedTransactionWithMeta[] = [];
-
-  for (let i = 0; i < signatures.length; i += 25) {
-    const chunk = signatures.slice(i, i + 25);
-
-    try {
-      const transactions = await connection.getParsedTransactions(chunk, {
-        maxSupportedTransactionVersion: 0,
-        commitment: "confirmed"
-      });
-
-      for (const tx of transactions) {
-        if (tx) {
-          parsedTransactions.push(tx);
-        }
-      }
-    } catch {
-      // Continue processing other chunks when RPC rejects one batch.
-    }
-  }
+  const { transactions: parsedTransactions, usage: txCache } = await fetchParsedTransactionsCached(
+    connection,
+    signatures,
+    diagnostics
+  );
 
   const aggregate = new Map<string, AggregateEntry>();
 
@@ -522,12 +439,18 @@ export const buildHighVolumeBoard = async (
     })
     .slice(0, safeLimit);
 
+  // Pool vaults trade on every swap, so they are classified to get their derived pool labels.
+  const classifications = await classifyHolders(rankedEntries.map((entry) => entry.wallet), diagnostics);
+  const labels = labelProgramPools(await loadAddressLabels(), classifications);
+
   const snapshot: HighVolumeBoardSnapshot = {
     timestamp: Date.now(),
-    entries: rankedEntries,
+    entries: rankedEntries.map((entry) => ({ ...entry, label: labels.get(entry.wallet) })),
     scannedSignatures: signatures.length,
     scannedTransactions: parsedTransactions.length,
-    minTotalGor: safeMinTotalGor
+    minTotalGor: safeMinTotalGor,
+    diagnostics: diagnostics.finish(),
+    txCache
   };
 
   boardCache.set(cacheKey, {
@@ -0,0 +1,63 @@
+import { type AccountInfo, PublicKey, SystemProgram } from "@solana/web3.js";
+import type { DiagnosticsRecorder } from "@/lib/diagnostics";
+import { getConnection } from "@/lib/rpc";
+import type { HolderKind } from "@/lib/types";
+
+export interface HolderClassification {
+  holderKind: HolderKind;
+  ownerProgram?: string;
+}
+
+// getMultipleAccounts accepts at most 100 keys per call.
+const ACCOUNT_BATCH_SIZE = 100;
+const SYSTEM_PROGRAM_ID = SystemProgram.programId.toBase58();
+
+const isOnCurve = (address: string): boolean => {
+  try {
+    return PublicKey.isOnCurve(new PublicKey(address).toBytes());
+  } catch {
+    return true;
+  }
+};
+
+/**
+ * Tags token owners as plain wallets, PDAs (off-curve) or accounts owned by a program other than the System Program,
+ * which is how bonding-curve vaults, AMM pools and escrows hold tokens. Only account owners are fetched, no data.
+ * When a batch fails its off-curve owners are still tagged; on-curve ones are left out rather than guessed.
+ */
+export const classifyHolders = async (
+  addresses: string[],
+  diagnostics?: DiagnosticsRecorder
+): Promise<Map<string, HolderClassification>> => {
+  const connection = getConnection();
+  const classifications = new Map<string, HolderClassification>();
+
+  for (let i = 0; i < addresses.length; i += ACCOUNT_BATCH_SIZE) {
+    const batch = addresses.slice(i, i + ACCOUNT_BATCH_SIZE);
+    let accounts: Array<AccountInfo<Buffer> | null> | null = null;
+
+    try {
+      accounts = await connection.getMultipleAccountsInfo(
+        batch.map((address) => new PublicKey(address)),
+        { commitment: "confirmed", dataSlice: { offset: 0, length: 0 } }
+      );
+      diagnostics?.succeed();
+    } catch (error) {
+      diagnostics?.fail("chunk", `holder accounts ${i + 1}-${i + batch.length} of ${addresses.length}`, error);
+    }
+
+    batch.forEach((address, index) => {
+      const ownerProgram = accounts?.[index]?.owner.toBase58();
+
+      if (!isOnCurve(address)) {
+        classifications.set(address, { holderKind: "pda", ownerProgram });
+      } else if (ownerProgram && ownerProgram !== SYSTEM_PROGRAM_ID) {
+        classifications.set(address, { holderKind: "program-owned", ownerProgram });
+      } else if (accounts) {
+        classifications.set(address, { holderKind: "wallet" });
+      }
+    });
+  }
+
+  return classifications;
+};
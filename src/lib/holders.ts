@@ -0,0 +1,177 @@
+import { appConfig } from "@/lib/config";
+import { loadAddressLabels } from "@/lib/labels";
+import { toPctSupply, toUiAmount } from "@/lib/math";
+import { fetchHolderScan, fetchMintMetadata, toPublicKey } from "@/lib/rpc";
+import type { BalanceBucket, HolderListPage } from "@/lib/types";
+
+interface CachedHolderScan {
+  mint: string;
+  supply: number;
+  decimals: number;
+  // Positive balances only, largest first.
+  holders: Array<[string, bigint]>;
+  histogram: BalanceBucket[];
+  scannedAt: number;
+}
+
+export interface HolderListQuery {
+  offset: number;
+  limit: number;
+  minBalance: number;
+  refresh?: boolean;
+}
+
+// Full holder lists can run to hundreds of thousands of entries, so only the most recent mints are kept.
+const MAX_CACHED_SCANS = 20;
+
+const BALANCE_BUCKETS: Array<{ label: string; maxPctSupply: number | null }> = [
+  { label: "Dust (<0.001%)", maxPctSupply: 0.001 },
+  { label: "<0.01%", maxPctSupply: 0.01 },
+  { label: "<0.1%", maxPctSupply: 0.1 },
+  { label: "<1%", maxPctSupply: 1 },
+  { label: "<10%", maxPctSupply: 10 },
+  { label: "≥10%", maxPctSupply: null }
+];
+
+const scans = new Map<string, CachedHolderScan>();
+const pendingScans = new Map<string, Promise<CachedHolderScan>>();
+
+export const sortHoldersByBalance = (balances: Map<string, bigint>): Array<[string, bigint]> => {
+  return [...balances.entries()].sort((a, b) => {
+    if (a[1] === b[1]) {
+      return 0;
+    }
+
+    return a[1] > b[1] ? -1 : 1;
+  });
+};
+
+const buildBalanceHistogram = (holders: Array<[string, bigint]>, supply: number, decimals: number): BalanceBucket[] => {
+  const buckets = BALANCE_BUCKETS.map((bucket) => ({ ...bucket, holderCount: 0, pctSupply: 0 }));
+
+  for (const [, balanceRaw] of holders) {
+    const pctSupply = toPctSupply(toUiAmount(balanceRaw, decimals), supply);
+    const bucket =
+      buckets.find((entry) => entry.maxPctSupply !== null && pctSupply < entry.maxPctSupply) ??
+      buckets[buckets.length - 1];
+
+    bucket.holderCount += 1;
+    bucket.pctSupply += pctSupply;
+  }
+
+  return buckets;
+};
+
+/**
+ * Keeps a holder scan for `/api/holders`. Snapshot builds call this with the scan they already made, so paging the
+ * full list after a snapshot does not rescan the mint.
+ */
+export const rememberHolderScan = (
+  mint: string,
+  supply: number,
+  decimals: number,
+  sortedHolders: Array<[string, bigint]>
+): CachedHolderScan => {
+  const holders = sortedHolders.filter(([, balanceRaw]) => balanceRaw > 0n);
+  const scan: CachedHolderScan = {
+    mint,
+    supply,
+    decimals,
+    holders,
+    histogram: buildBalanceHistogram(holders, supply, decimals),
+    scannedAt: Date.now()
+  };
+
+  scans.delete(mint);
+  scans.set(mint, scan);
+
+  while (scans.size > MAX_CACHED_SCANS) {
+    const oldest = scans.keys().next().value;
+    if (oldest === undefined) {
+      break;
+    }
+
+    scans.delete(oldest);
+  }
+
+  return scan;
+};
+
+const scanHolders = async (mintAddress: string): Promise<CachedHolderScan> => {
+  const mint = toPublicKey(mintAddress);
+  const mintMetadata = await fetchMintMetadata(mint);
+  const holderScan = await fetchHolderScan(mint, mintMetadata.tokenProgramId);
+
+  return rememberHolderScan(
+    mint.toBase58(),
+    mintMetadata.supply,
+    mintMetadata.decimals,
+    sortHoldersByBalance(holderScan.balances)
+  );
+};
+
+const getHolderScan = async (mintAddress: string, refresh: boolean): Promise<CachedHolderScan> => {
+  const mint = toPublicKey(mintAddress).toBase58();
+  const cached = scans.get(mint);
+  if (!refresh && cached && cached.scannedAt + appConfig.holderScanTtlMs > Date.now()) {
+    return cached;
+  }
+
+  // Concurrent page requests for the same mint share one scan.
+  const pending = pendingScans.get(mint);
+  if (pending) {
+    return pending;
+  }
+
+  const scan = scanHolders(mint).finally(() => {
+    pendingScans.delete(mint);
+  });
+  pendingScans.set(mint, scan);
+
+  return scan;
+};
+
+/**
+ * One page of the full ranked holder list. Ranks are positions in the whole list, so they stay stable when
+ * `minBalance` hides the tail.
+ */
+export const getHolderListPage = async (mintAddress: string, query: HolderListQuery): Promise<HolderListPage> => {
+  const scan = await getHolderScan(mintAddress, query.refresh ?? false);
+  const labels = await loadAddressLabels();
+
+  // Holders are sorted largest first, so those passing `minBalance` are a prefix of the list.
+  let matchingCount = 0;
+  while (
+    matchingCount < scan.holders.length &&
+    toUiAmount(scan.holders[matchingCount][1], scan.decimals) >= query.minBalance
+  ) {
+    matchingCount += 1;
+  }
+
+  const end = Math.min(matchingCount, query.offset + query.limit);
+  const holders = scan.holders.slice(query.offset, end).map(([address, balanceRaw], index) => {
+    const balance = toUiAmount(balanceRaw, scan.decimals);
+
+    return {
+      rank: query.offset + index + 1,
+      address,
+      balance,
+      pctSupply: toPctSupply(balance, scan.supply),
+      label: labels.get(address)
+    };
+  });
+
+  return {
+    mint: scan.mint,
+    supply: scan.supply,
+    decimals: scan.decimals,
+    holderCount: scan.holders.length,
+    matchingCount,
+    offset: query.offset,
+    limit: query.limit,
+    minBalance: query.minBalance,
+    holders,
+    histogram: scan.histogram,
+    scannedAt: scan.scannedAt
+  };
+};
@@ -0,0 +1,24 @@
+import type { AddressLabelKind } from "@/lib/types";
+
+/**
+ * Display names of the label kinds, plural because the UI uses them in "hide ..." filters.
+ */
+export const ADDRESS_LABEL_KINDS: Record<AddressLabelKind, string> = {
+  program: "Programs",
+  pool: "Pools",
+  burn: "Burn",
+  locker: "Lockers",
+  exchange: "Exchanges",
+  other: "Other labeled"
+};
+
+export const isAddressLabelKind = (value: unknown): value is AddressLabelKind => {
+  return typeof value === "string" && Object.hasOwn(ADDRESS_LABEL_KINDS, value);
+};
+
+export const parseLabelKindList = (value: string | null | undefined): AddressLabelKind[] => {
+  return (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(isAddressLabelKind);
+};
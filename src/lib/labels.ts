@@ -0,0 +1,123 @@
+import { readFile, stat } from "node:fs/promises";
+import { appConfig } from "@/lib/config";
+import type { HolderClassification } from "@/lib/holder-kinds";
+import knownLabels from "@/lib/known-labels.json";
+import { isAddressLabelKind } from "@/lib/label-kinds";
+import { getProgramSources } from "@/lib/program-sources";
+import type { AddressLabel } from "@/lib/types";
+
+const PROGRAM_SOURCE_NAMES: Record<string, string> = {
+  "bang.meme": "Bang program",
+  "trashbin.fun": "Trashbin program"
+};
+
+const PROGRAM_POOL_NAMES: Record<string, string> = {
+  "bang.meme": "Bang pool",
+  "trashbin.fun": "Trashbin pool"
+};
+
+let overridesCache: { mtimeMs: number; labels: Map<string, AddressLabel | null> } | null = null;
+
+// Accepts `{ name, kind }` objects and `null` (hide the label); anything else is ignored.
+const parseLabelEntries = (value: unknown): Map<string, AddressLabel | null> => {
+  const labels = new Map<string, AddressLabel | null>();
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return labels;
+  }
+
+  for (const [address, entry] of Object.entries(value as Record<string, unknown>)) {
+    if (entry === null) {
+      labels.set(address, null);
+      continue;
+    }
+
+    if (!entry || typeof entry !== "object") {
+      continue;
+    }
+
+    const { name, kind } = entry as { name?: unknown; kind?: unknown };
+    if (typeof name !== "string" || name.trim().length === 0) {
+      continue;
+    }
+
+    labels.set(address, { name: name.trim(), kind: isAddressLabelKind(kind) ? kind : "other" });
+  }
+
+  return labels;
+};
+
+const loadOverrides = async (): Promise<Map<string, AddressLabel | null>> => {
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await stat(appConfig.addressLabelsFile)).mtimeMs;
+  } catch {
+    // No overrides file is the normal case.
+    overridesCache = null;
+    return new Map();
+  }
+
+  if (overridesCache?.mtimeMs === mtimeMs) {
+    return overridesCache.labels;
+  }
+
+  try {
+    const labels = parseLabelEntries(JSON.parse(await readFile(appConfig.addressLabelsFile, "utf8")));
+    overridesCache = { mtimeMs, labels };
+    return labels;
+  } catch {
+    // A half-written or invalid file keeps the previous overrides until it parses again.
+    return overridesCache?.labels ?? new Map();
+  }
+};
+
+/**
+ * Known addresses by base58: the bundled `known-labels.json`, the Bang and Trashbin programs, then the user overrides
+ * in `ADDRESS_LABELS_FILE`, which win. The overrides file is re-read when it changes.
+ */
+export const loadAddressLabels = async (): Promise<Map<string, AddressLabel>> => {
+  const labels = new Map<string, AddressLabel>();
+
+  for (const [address, label] of parseLabelEntries(knownLabels)) {
+    if (label) {
+      labels.set(address, label);
+    }
+  }
+
+  for (const program of getProgramSources()) {
+    labels.set(program.address.toBase58(), { name: PROGRAM_SOURCE_NAMES[program.source], kind: "program" });
+  }
+
+  for (const [address, label] of await loadOverrides()) {
+    if (label) {
+      labels.set(address, label);
+    } else {
+      labels.delete(address);
+    }
+  }
+
+  return labels;
+};
+
+/**
+ * Adds `pool` labels for unlabeled holders whose account is owned by a Bang or Trashbin program, which is how their
+ * bonding curves and pools hold tokens. Pool addresses change with every launch, so they are derived rather than
+ * bundled; an explicit label for the address always wins.
+ */
+export const labelProgramPools = (
+  labels: Map<string, AddressLabel>,
+  classifications: Map<string, HolderClassification>
+): Map<string, AddressLabel> => {
+  const poolNames = new Map(
+    getProgramSources().map((program) => [program.address.toBase58(), PROGRAM_POOL_NAMES[program.source]])
+  );
+  const merged = new Map(labels);
+
+  for (const [address, classification] of classifications) {
+    const name = classification.ownerProgram ? poolNames.get(classification.ownerProgram) : undefined;
+    if (name && !merged.has(address)) {
+      merged.set(address, { name, kind: "pool" });
+    }
+  }
+
+  return merged;
+};
@@ -0,0 +1,187 @@
+import { snapshotEdgeKey } from "@/lib/snapshot-diff";
+import type { LivePatch, SnapshotEdge, SnapshotNode, TokenSnapshot } from "@/lib/types";
+
+const BALANCE_EPSILON = 1e-9;
+
+const hasMoved = (before: number, after: number): boolean => {
+  return Math.abs(after - before) > BALANCE_EPSILON * Math.max(1, Math.abs(before));
+};
+
+// Summary blocks are small plain objects built the same way every time, so serialized equality is enough.
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const nodeChanged = (before: SnapshotNode, after: SnapshotNode): boolean => {
+  return (
+    before.clusterId !== after.clusterId ||
+    before.sniper !== after.sniper ||
+    before.holderKind !== after.holderKind ||
+    before.ownerProgram !== after.ownerProgram ||
+    before.firstAcquiredAt !== after.firstAcquiredAt ||
+    before.firstAcquiredSlot !== after.firstAcquiredSlot ||
+    !sameValue(before.label, after.label) ||
+    hasMoved(before.balance, after.balance) ||
+    hasMoved(before.pctSupply, after.pctSupply)
+  );
+};
+
+const edgeChanged = (before: SnapshotEdge, after: SnapshotEdge): boolean => {
+  return (
+    before.txCount !== after.txCount ||
+    before.funder !== after.funder ||
+    hasMoved(before.amountSum, after.amountSum) ||
+    hasMoved(before.feeSum ?? 0, after.feeSum ?? 0)
+  );
+};
+
+const sortNodes = (nodes: SnapshotNode[]): SnapshotNode[] => {
+  return nodes.sort((a, b) => b.balance - a.balance);
+};
+
+const sortEdges = (edges: SnapshotEdge[]): SnapshotEdge[] => {
+  return edges.sort((a, b) => {
+    // Funding amounts are in GOR, not the token, so funding edges sort after all transfers.
+    if ((a.kind === "funding") !== (b.kind === "funding")) {
+      return a.kind === "funding" ? 1 : -1;
+    }
+
+    if (a.amountSum === b.amountSum) {
+      return b.txCount - a.txCount;
+    }
+
+    return b.amountSum - a.amountSum;
+  });
+};
+
+/**
+ * Live event ids are `<epoch>-<sequence>`. The epoch identifies one run of a live state, so a client resuming after
+ * the state was torn down and recreated is never fed patches from a different history.
+ */
+export const formatLiveEventId = (epoch: number, sequence: number): string => `${epoch}-${sequence}`;
+
+export const parseLiveEventId = (id: string | null | undefined): { epoch: number; sequence: number } | null => {
+  const match = /^(\d+)-(\d+)$/.exec(id?.trim() ?? "");
+  if (!match) {
+    return null;
+  }
+
+  return { epoch: Number(match[1]), sequence: Number(match[2]) };
+};
+
+/**
+ * True when the patch would not change what a client shows for `previous`: no node or edge deltas and the same supply,
+ * clusters and summary metrics. RPC usage, diagnostics and the cache hit rate change on every build and do not count.
+ */
+export const isEmptyLivePatch = (patch: LivePatch, previous: TokenSnapshot): boolean => {
+  return (
+    patch.supply === previous.supply &&
+    sameValue(patch.clusters, previous.clusters) &&
+    sameValue(patch.distribution, previous.distribution) &&
+    sameValue(patch.excludedHolders, previous.excludedHolders) &&
+    sameValue(patch.snipers, previous.snipers) &&
+    sameValue(patch.circulating, previous.circulating) &&
+    patch.nodes.added.length === 0 &&
+    patch.nodes.removed.length === 0 &&
+    patch.nodes.rebalanced.length === 0 &&
+    patch.edges.added.length === 0 &&
+    patch.edges.updated.length === 0 &&
+    patch.edges.removed.length === 0
+  );
+};
+
+/**
+ * Structured delta that turns `previous` into `next`. Clusters are small and shift whenever membership changes, so
+ * they are shipped whole.
+ */
+export const buildLivePatch = (previous: TokenSnapshot, next: TokenSnapshot, sequence: number): LivePatch => {
+  const previousNodes = new Map(previous.nodes.map((node) => [node.address, node]));
+  const nextNodes = new Map(next.nodes.map((node) => [node.address, node]));
+  const previousEdges = new Map(previous.edges.map((edge) => [snapshotEdgeKey(edge), edge]));
+  const nextEdges = new Map(next.edges.map((edge) => [snapshotEdgeKey(edge), edge]));
+
+  const patch: LivePatch = {
+    mint: next.mint,
+    sequence,
+    baseSequence: sequence - 1,
+    timestamp: next.timestamp,
+    supply: next.supply,
+    nodes: { added: [], removed: [], rebalanced: [] },
+    edges: { added: [], updated: [], removed: [] },
+    clusters: next.clusters,
+    rpc: next.rpc,
+    diagnostics: next.diagnostics,
+    txCache: next.txCache,
+    distribution: next.distribution,
+    excludedHolders: next.excludedHolders,
+    snipers: next.snipers,
+    circulating: next.circulating
+  };
+
+  for (const [address, node] of nextNodes) {
+    const before = previousNodes.get(address);
+    if (!before) {
+      patch.nodes.added.push(node);
+    } else if (nodeChanged(before, node)) {
+      patch.nodes.rebalanced.push(node);
+    }
+  }
+
+  for (const address of previousNodes.keys()) {
+    if (!nextNodes.has(address)) {
+      patch.nodes.removed.push(address);
+    }
+  }
+
+  for (const [key, edge] of nextEdges) {
+    const before = previousEdges.get(key);
+    if (!before) {
+      patch.edges.added.push(edge);
+    } else if (edgeChanged(before, edge)) {
+      patch.edges.updated.push(edge);
+    }
+  }
+
+  for (const [key, edge] of previousEdges) {
+    if (!nextEdges.has(key)) {
+      patch.edges.removed.push({ from: edge.from, to: edge.to, kind: edge.kind });
+    }
+  }
+
+  return patch;
+};
+
+/**
+ * Applies a patch produced by `buildLivePatch`. The caller is responsible for checking `baseSequence`.
+ */
+export const applyLivePatch = (snapshot: TokenSnapshot, patch: LivePatch): TokenSnapshot => {
+  const nodes = new Map(snapshot.nodes.map((node) => [node.address, node]));
+  for (const address of patch.nodes.removed) {
+    nodes.delete(address);
+  }
+  for (const node of [...patch.nodes.added, ...patch.nodes.rebalanced]) {
+    nodes.set(node.address, node);
+  }
+
+  const edges = new Map(snapshot.edges.map((edge) => [snapshotEdgeKey(edge), edge]));
+  for (const edge of patch.edges.removed) {
+    edges.delete(snapshotEdgeKey(edge));
+  }
+  for (const edge of [...patch.edges.added, ...patch.edges.updated]) {
+    edges.set(snapshotEdgeKey(edge), edge);
+  }
+
+  return {
+    ...snapshot,
+    supply: patch.supply,
+    timestamp: patch.timestamp,
+    nodes: sortNodes([...nodes.values()]),
+    edges: sortEdges([...edges.values()]),
+    clusters: patch.clusters,
+    rpc: patch.rpc,
+    diagnostics: patch.diagnostics,
+    txCache: patch.txCache,
+    distribution: patch.distribution,
+    excludedHolders: patch.excludedHolders,
+    snipers: patch.snipers,
+    circulating: patch.circulating
+  };
+};
@@ -1,7 +1,9 @@
 import { appConfig } from "@/lib/config";
+import { createDiagnosticsRecorder, mergeDiagnostics } from "@/lib/diagnostics";
+import { buildLivePatch, formatLiveEventId, isEmptyLivePatch, parseLiveEventId } from "@/lib/live-patch";
 import { getConnection } from "@/lib/rpc";
 import { buildSnapshot, normalizeSnapshotOptions } from "@/lib/snapshot";
-import type { BuildSnapshotOptions, LiveOptions, TokenSnapshot } from "@/lib/types";
+import type { BuildSnapshotOptions, LiveOptions, LivePatch, ScanDiagnostics, TokenSnapshot } from "@/lib/types";
 import { PublicKey } from "@solana/web3.js";
 
 interface RequiredLiveOptions extends Required<BuildSnapshotOptions> {
@@ -9,8 +11,9 @@ interface RequiredLiveOptions extends Required<BuildSnapshotOptions> {
   forceRefreshMs: number;
 }
 
-interface LiveSubscriber {
-  onSnapshot: (snapshot: TokenSnapshot) => void;
+export interface LiveSubscriber {
+  onSnapshot: (snapshot: TokenSnapshot, eventId: string) => void;
+  onPatch: (patch: LivePatch, eventId: string) => void;
   onError?: (error: Error) => void;
 }
 
@@ -20,12 +23,20 @@ interface LiveState {
   options: RequiredLiveOptions;
   subscribers: Set<LiveSubscriber>;
   snapshot: TokenSnapshot | null;
+  epoch: number;
+  sequence: number;
+  // Most recent patches, oldest first, replayed to clients that resume with a Last-Event-ID.
+  patches: LivePatch[];
   activityFingerprint: string;
+  // Set while activity checks keep failing, so a flaky RPC reports the failure once rather than on every poll.
+  activityFailing: boolean;
   lastRefreshAt: number;
   isRefreshing: boolean;
   timer: NodeJS.Timeout | null;
 }
 
+const PATCH_HISTORY_LIMIT = 64;
+
 const states = new Map<string, LiveState>();
 
 const buildStateKey = (mint: string, options: RequiredLiveOptions): string => {
@@ -35,6 +46,15 @@ const buildStateKey = (mint: string, options: RequiredLiveOptions): string => {
     options.edgeWalletLimit,
     options.txLimit,
     options.maxSignatures,
+    options.sinceHours,
+    options.untilSlot,
+    options.edgeMode,
+    options.excludeProgramHolders,
+    options.metricsExcludeLabeled,
+    options.fundingEdges,
+    options.clusterFunding,
+    options.detectSnipers,
+    options.sniperSlots,
     options.pollIntervalMs,
     options.forceRefreshMs
   ].join(":");
@@ -51,8 +71,16 @@ const normalizeLiveOptions = (options: LiveOptions = {}): RequiredLiveOptions =>
 };
 
 const notifySnapshot = (state: LiveState, snapshot: TokenSnapshot): void => {
+  const eventId = formatLiveEventId(state.epoch, state.sequence);
   for (const subscriber of state.subscribers) {
-    subscriber.onSnapshot(snapshot);
+    subscriber.onSnapshot(snapshot, eventId);
+  }
+};
+
+const notifyPatch = (state: LiveState, patch: LivePatch): void => {
+  const eventId = formatLiveEventId(state.epoch, patch.sequence);
+  for (const subscriber of state.subscribers) {
+    subscriber.onPatch(patch, eventId);
   }
 };
 
@@ -62,15 +90,22 @@ const notifyError = (state: LiveState, error: Error): void => {
   }
 };
 
-const fetchActivityFingerprint = async (wallets: string[]): Promise<string> => {
+// A wallet whose lookup fails keeps its previous signature, so a flaky RPC does not trigger a full rebuild; the
+// failure is reported in the returned diagnostics instead.
+const fetchActivityFingerprint = async (
+  wallets: string[],
+  previousFingerprint = ""
+): Promise<{ fingerprint: string; diagnostics: ScanDiagnostics }> => {
+  const diagnostics = createDiagnosticsRecorder();
   if (wallets.length === 0) {
-    return "";
+    return { fingerprint: "", diagnostics: diagnostics.finish() };
   }
 
   const connection = getConnection();
+  const previousSignatures = previousFingerprint.split("|");
 
   const signatures = await Promise.all(
-    wallets.map(async (wallet) => {
+    wallets.map(async (wallet, index) => {
       try {
         const latest = await connection.getSignaturesForAddress(
           new PublicKey(wallet),
@@ -78,14 +113,24 @@ const fetchActivityFingerprint = async (wallets: string[]): Promise<string> => {
           "confirmed"
         );
 
+        diagnostics.succeed();
         return latest[0]?.signature ?? "none";
-      } catch {
-        return "error";
+      } catch (error) {
+        diagnostics.fail("fingerprint", wallet, error);
+        return previousSignatures[index] ?? "error";
       }
     })
   );
 
-  return signatures.join("|");
+  return { fingerprint: signatures.join("|"), diagnostics: diagnostics.finish() };
+};
+
+// The synthetic mint and burn nodes are not addresses, so they are never polled.
+const listTrackedWallets = (snapshot: TokenSnapshot, edgeWalletLimit: number): string[] => {
+  return snapshot.nodes
+    .filter((node) => !node.synthetic)
+    .slice(0, edgeWalletLimit)
+    .map((node) => node.address);
 };
 
 const refreshState = async (state: LiveState): Promise<void> => {
@@ -97,13 +142,31 @@ const refreshState = async (state: LiveState): Promise<void> => {
 
   try {
     const snapshot = await buildSnapshot(state.mint, state.options);
-    const trackedWallets = snapshot.nodes.slice(0, state.options.edgeWalletLimit).map((node) => node.address);
+    const trackedWallets = listTrackedWallets(snapshot, state.options.edgeWalletLimit);
+
+    const previous = state.snapshot;
+    const activity = await fetchActivityFingerprint(trackedWallets);
 
-    state.snapshot = snapshot;
     state.lastRefreshAt = Date.now();
-    state.activityFingerprint = await fetchActivityFingerprint(trackedWallets);
+    state.activityFingerprint = activity.fingerprint;
+    snapshot.diagnostics = mergeDiagnostics(snapshot.diagnostics, activity.diagnostics);
+
+    if (!previous) {
+      state.snapshot = snapshot;
+      state.sequence += 1;
+      notifySnapshot(state, snapshot);
+      return;
+    }
 
-    notifySnapshot(state, snapshot);
+    const patch = buildLivePatch(previous, snapshot, state.sequence + 1);
+    state.snapshot = snapshot;
+    if (isEmptyLivePatch(patch, previous)) {
+      return;
+    }
+
+    state.sequence = patch.sequence;
+    state.patches = [...state.patches, patch].slice(-PATCH_HISTORY_LIMIT);
+    notifyPatch(state, patch);
   } catch (error) {
     const normalizedError = error instanceof Error ? error : new Error("Unknown live refresh failure");
     notifyError(state, normalizedError);
@@ -125,10 +188,21 @@ const tickState = async (state: LiveState): Promise<void> => {
     return;
   }
 
-  const trackedWallets = state.snapshot.nodes.slice(0, state.options.edgeWalletLimit).map((node) => node.address);
-  const fingerprint = await fetchActivityFingerprint(trackedWallets);
+  const trackedWallets = listTrackedWallets(state.snapshot, state.options.edgeWalletLimit);
+  const activity = await fetchActivityFingerprint(trackedWallets, state.activityFingerprint);
+
+  const failing = activity.diagnostics.failures.length > 0;
+  if (failing && !state.activityFailing) {
+    notifyError(
+      state,
+      new Error(
+        `Activity check failed for ${activity.diagnostics.failures.length} of ${trackedWallets.length} tracked wallets`
+      )
+    );
+  }
+  state.activityFailing = failing;
 
-  if (fingerprint !== state.activityFingerprint) {
+  if (activity.fingerprint !== state.activityFingerprint) {
     await refreshState(state);
   }
 };
@@ -154,7 +228,11 @@ const ensureState = (mint: string, options: RequiredLiveOptions): LiveState => {
     options,
     subscribers: new Set(),
     snapshot: null,
+    epoch: Date.now(),
+    sequence: 0,
+    patches: [],
     activityFingerprint: "",
+    activityFailing: false,
     lastRefreshAt: 0,
     isRefreshing: false,
     timer: null
@@ -175,25 +253,42 @@ const stopState = (state: LiveState): void => {
   states.delete(state.key);
 };
 
+// Brings a new subscriber up to date: nothing if it is current, the missed patches if they are still buffered, and
+// the full snapshot otherwise.
+const resyncSubscriber = (state: LiveState, subscriber: LiveSubscriber, lastEventId: string | null): void => {
+  if (!state.snapshot) {
+    return;
+  }
+
+  const cursor = parseLiveEventId(lastEventId);
+  if (cursor && cursor.epoch === state.epoch && cursor.sequence <= state.sequence) {
+    const missed = state.patches.filter((patch) => patch.sequence > cursor.sequence);
+    if (missed.length === state.sequence - cursor.sequence) {
+      for (const patch of missed) {
+        subscriber.onPatch(patch, formatLiveEventId(state.epoch, patch.sequence));
+      }
+      return;
+    }
+  }
+
+  subscriber.onSnapshot(state.snapshot, formatLiveEventId(state.epoch, state.sequence));
+};
+
+/**
+ * Subscribes to live updates for a mint. The first event is a full snapshot unless `lastEventId` lets the
+ * subscriber resume from buffered patches; every later change arrives as a `LivePatch`.
+ */
 export const subscribeToLiveSnapshots = async (
   mint: string,
   options: LiveOptions,
-  onSnapshot: (snapshot: TokenSnapshot) => void,
-  onError?: (error: Error) => void
+  subscriber: LiveSubscriber,
+  lastEventId: string | null = null
 ): Promise<() => void> => {
   const normalizedOptions = normalizeLiveOptions(options);
   const state = ensureState(mint, normalizedOptions);
 
-  const subscriber: LiveSubscriber = {
-    onSnapshot,
-    onError
-  };
-
   state.subscribers.add(subscriber);
-
-  if (state.snapshot) {
-    onSnapshot(state.snapshot);
-  }
+  resyncSubscriber(state, subscriber, lastEventId);
 
   return () => {
     state.subscribers.delete(subscriber);
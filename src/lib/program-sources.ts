@@ -0,0 +1,60 @@
+import { PublicKey } from "@solana/web3.js";
+
+export interface ProgramSource {
+  source: "bang.meme" | "trashbin.fun";
+  address: PublicKey;
+}
+
+const parseProgramList = (value: string | undefined, defaults: string[]): string[] => {
+  if (!value) {
+    return defaults;
+  }
+
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+};
+
+/**
+ * Bang and Trashbin program IDs scanned by the High Volume Board, overridable through the environment.
+ */
+export const getProgramSources = (): ProgramSource[] => {
+  const bangPrograms = parseProgramList(process.env.HIGH_VOLUME_BANG_PROGRAM_IDS, [
+    "BANGM1VB3At4Edot22MV5NGCEENcEsdxsURM9X4iQpQf",
+    "BANGS1E3rw36jue2sL1xLDp4cMxHm2Cc5bQRSAkz9BGr",
+    "BANG11ZNGMexiuLDqqifVoW7mfX2BKLYLwzNPhJrAwnN",
+    "6T6Ud5gQWwbcG6b7SixvukR3scT1GTqot37y3ztAG7eH",
+    "6YWQdKjPb1m6VZMFCrtuSpYKqubcj7RRt22ePR3GQq2h"
+  ]);
+  const trashbinPrograms = parseProgramList(process.env.HIGH_VOLUME_TRASHBIN_PROGRAM_IDS, [
+    "BAEZRQHD9aZky1yNeXjv7yHAXXeZ2B8QHtXmy8gn5ETZ",
+    "DYgGxvJD8GTYQSGFmT4RUab5TJ7W3m7Vrbg2UueNzAq8"
+  ]);
+
+  const sources: ProgramSource[] = [];
+
+  for (const programId of bangPrograms) {
+    try {
+      sources.push({
+        source: "bang.meme",
+        address: new PublicKey(programId)
+      });
+    } catch {
+      // Ignore invalid env values and continue with other programs.
+    }
+  }
+
+  for (const programId of trashbinPrograms) {
+    try {
+      sources.push({
+        source: "trashbin.fun",
+        address: new PublicKey(programId)
+      });
+    } catch {
+      // Ignore invalid env values and continue with other programs.
+    }
+  }
+
+  return sources;
+};
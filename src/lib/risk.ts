@@ -0,0 +1,189 @@
+import type { MintSecurity, RiskFactor, RiskLevel, RiskReport, TokenSnapshot } from "@/lib/types";
+
+type FactorInput = Omit<RiskFactor, "level">;
+
+const formatPct = (value: number): string => `${value.toFixed(2)}%`;
+
+const shortenAddress = (address: string): string => `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+// Linear ramp from 0 at `low` to 1 at `high`.
+const ramp = (value: number, low: number, high: number): number => {
+  return Math.min(1, Math.max(0, (value - low) / (high - low)));
+};
+
+const levelFor = (points: number, maxPoints: number): RiskLevel => {
+  const ratio = maxPoints > 0 ? points / maxPoints : 0;
+  if (ratio >= 0.66) {
+    return "high";
+  }
+
+  return ratio >= 0.33 ? "medium" : "low";
+};
+
+const factor = (input: FactorInput): RiskFactor => {
+  const points = Math.round(input.points);
+  return { ...input, points, level: levelFor(points, input.maxPoints) };
+};
+
+const unknownFactor = (input: Omit<FactorInput, "points">): RiskFactor => {
+  return { ...input, points: 0, level: "unknown" };
+};
+
+const authorityFactors = (security: MintSecurity): RiskFactor[] => {
+  return [
+    factor({
+      key: "mintAuthority",
+      label: "Mint authority",
+      maxPoints: 20,
+      points: security.mintAuthority ? 20 : 0,
+      explanation: security.mintAuthority
+        ? `${shortenAddress(security.mintAuthority)} can still mint new supply and dilute holders.`
+        : "Revoked: supply is fixed."
+    }),
+    factor({
+      key: "freezeAuthority",
+      label: "Freeze authority",
+      maxPoints: 15,
+      points: security.freezeAuthority ? 15 : 0,
+      explanation: security.freezeAuthority
+        ? `${shortenAddress(security.freezeAuthority)} can freeze any holder's token account.`
+        : "Revoked: token accounts cannot be frozen."
+    })
+  ];
+};
+
+const extensionFactors = (security: MintSecurity): RiskFactor[] => {
+  const feeBasisPoints = security.transferFeeBasisPoints ?? 0;
+
+  return [
+    factor({
+      key: "transferFee",
+      label: "Transfer fee",
+      maxPoints: 10,
+      // Full points at a 5% fee.
+      points: 10 * ramp(feeBasisPoints, 0, 500),
+      explanation:
+        security.transferFeeBasisPoints === null
+          ? "No transfer fee extension."
+          : `Every transfer withholds ${(feeBasisPoints / 100).toFixed(2)}% as a fee.`
+    }),
+    factor({
+      key: "permanentDelegate",
+      label: "Permanent delegate",
+      maxPoints: 20,
+      points: security.permanentDelegate ? 20 : 0,
+      explanation: security.permanentDelegate
+        ? `${shortenAddress(security.permanentDelegate)} can transfer or burn tokens from any holder.`
+        : "No permanent delegate."
+    }),
+    factor({
+      key: "nonTransferable",
+      label: "Non-transferable",
+      maxPoints: 10,
+      points: security.nonTransferable ? 10 : 0,
+      explanation: security.nonTransferable
+        ? "Tokens cannot be transferred, so holders cannot sell."
+        : "Tokens are transferable."
+    }),
+    factor({
+      key: "transferHook",
+      label: "Transfer hook",
+      maxPoints: 10,
+      points: security.transferHookProgram ? 10 : 0,
+      explanation: security.transferHookProgram
+        ? `Every transfer calls program ${shortenAddress(security.transferHookProgram)}, which can block or alter it.`
+        : "No transfer hook."
+    })
+  ];
+};
+
+const holderFactors = (snapshot: TokenSnapshot): RiskFactor[] => {
+  const factors: RiskFactor[] = [];
+
+  const top10Pct = snapshot.distribution?.top10Pct;
+  if (top10Pct === undefined) {
+    factors.push(
+      unknownFactor({
+        key: "top10Concentration",
+        label: "Top 10 holders",
+        maxPoints: 15,
+        explanation: "The snapshot has no distribution metrics."
+      })
+    );
+  } else {
+    factors.push(
+      factor({
+        key: "top10Concentration",
+        label: "Top 10 holders",
+        maxPoints: 15,
+        points: 15 * ramp(top10Pct, 20, 80),
+        explanation: `The 10 largest holders hold ${formatPct(top10Pct)} of the measured supply.`
+      })
+    );
+  }
+
+  // Single-wallet clusters are just holders; only groups of linked wallets count here.
+  const largestCluster = snapshot.clusters
+    .filter((cluster) => cluster.nodeAddresses.length > 1)
+    .reduce<TokenSnapshot["clusters"][number] | null>((largest, cluster) => {
+      return !largest || cluster.totalPctSupply > largest.totalPctSupply ? cluster : largest;
+    }, null);
+
+  factors.push(
+    factor({
+      key: "largestCluster",
+      label: "Largest cluster",
+      maxPoints: 15,
+      points: largestCluster ? 15 * ramp(largestCluster.totalPctSupply, 5, 40) : 0,
+      explanation: largestCluster
+        ? `Cluster #${largestCluster.id}: ${largestCluster.nodeAddresses.length} linked wallets hold ${formatPct(
+            largestCluster.totalPctSupply
+          )} of supply.`
+        : "No linked wallets among the mapped holders."
+    })
+  );
+
+  if (!snapshot.snipers) {
+    factors.push(
+      unknownFactor({
+        key: "flaggedWallets",
+        label: "Flagged wallets",
+        maxPoints: 15,
+        explanation: "The launch was not traced, so snipers and bundled buys are unknown."
+      })
+    );
+  } else {
+    factors.push(
+      factor({
+        key: "flaggedWallets",
+        label: "Flagged wallets",
+        maxPoints: 15,
+        points: 15 * ramp(snapshot.snipers.sniperPctSupply, 1, 20),
+        explanation: `${snapshot.snipers.sniperCount} sniper or bundled-buy wallets hold ${formatPct(
+          snapshot.snipers.sniperPctSupply
+        )} of supply.`
+      })
+    );
+  }
+
+  return factors;
+};
+
+/**
+ * Scores a mint from its authorities and extensions plus the holder structure of a snapshot. Each factor adds points
+ * up to its own maximum; the total is capped at 100, with 50 and above reported as high risk.
+ */
+export const buildRiskReport = (snapshot: TokenSnapshot, security: MintSecurity): RiskReport => {
+  const factors = [...authorityFactors(security), ...extensionFactors(security), ...holderFactors(snapshot)];
+  const score = Math.min(100, factors.reduce((sum, entry) => sum + entry.points, 0));
+
+  return {
+    mint: snapshot.mint,
+    score,
+    level: score >= 50 ? "high" : score >= 25 ? "medium" : "low",
+    factors,
+    security,
+    snapshotTimestamp: snapshot.timestamp,
+    timestamp: Date.now()
+  };
+};
@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createRpcPoolFetch, withRpcUsageStats } from "@/lib/rpc-pool";
+
+const POOL_OPTIONS = {
+  endpoints: ["https://rpc-a.test", "https://rpc-b.test"],
+  maxConcurrencyPerEndpoint: 4,
+  maxRetries: 2,
+  backoffBaseMs: 1,
+  requestTimeoutMs: 1000
+};
+
+const jsonResponse = (body: unknown, status = 200): Response => {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("createRpcPoolFetch", () => {
+  it("fails over when a JSON-RPC rate limit arrives with HTTP 200", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        jsonResponse({ jsonrpc: "2.0", id: 1, error: { code: -32005, message: "Too many requests" } })
+      )
+      .mockResolvedValueOnce(jsonResponse({ jsonrpc: "2.0", id: 1, result: 42 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const poolFetch = createRpcPoolFetch(POOL_OPTIONS);
+    const { result, stats } = await withRpcUsageStats(async () => (await poolFetch("", { method: "POST" })).json());
+
+    expect(result).toEqual({ jsonrpc: "2.0", id: 1, result: 42 });
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual(["https://rpc-a.test", "https://rpc-b.test"]);
+    expect(stats).toMatchObject({ requests: 1, retries: 1, failedRequests: 0 });
+  });
+
+  it("cancels the bodies of retried responses and returns the last one", async () => {
+    const responses = [jsonResponse({}, 503), jsonResponse({}, 503), jsonResponse({ error: "down" }, 503)];
+    const cancels = responses.map((response) => vi.spyOn(response.body as ReadableStream, "cancel"));
+    vi.stubGlobal("fetch", vi.fn().mockImplementation(async () => responses.shift()));
+
+    const response = await createRpcPoolFetch(POOL_OPTIONS)("", { method: "POST" });
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toEqual({ error: "down" });
+    expect(cancels.map((cancel) => cancel.mock.calls.length)).toEqual([1, 1, 0]);
+  });
+
+  it("times out a response whose body stalls and fails over", async () => {
+    const stalled = (_url: string, init: RequestInit): Response => {
+      const body = new ReadableStream({
+        start(controller) {
+          init.signal?.addEventListener("abort", () => controller.error(new Error("aborted")));
+        }
+      });
+      return new Response(body, { status: 200 });
+    };
+    const fetchMock = vi
+      .fn()
+      .mockImplementationOnce(async (url: string, init: RequestInit) => stalled(url, init))
+      .mockResolvedValueOnce(jsonResponse({ jsonrpc: "2.0", id: 1, result: 7 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const response = await createRpcPoolFetch({ ...POOL_OPTIONS, requestTimeoutMs: 20 })("", { method: "POST" });
+
+    expect(await response.json()).toEqual({ jsonrpc: "2.0", id: 1, result: 7 });
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual(["https://rpc-a.test", "https://rpc-b.test"]);
+  });
+});
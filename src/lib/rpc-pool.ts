@@ -0,0 +1,257 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { RpcUsageStats } from "@/lib/types";
+
+export interface RpcPoolOptions {
+  endpoints: string[];
+  maxConcurrencyPerEndpoint: number;
+  maxRetries: number;
+  backoffBaseMs: number;
+  requestTimeoutMs: number;
+}
+
+interface EndpointState {
+  url: string;
+  order: number;
+  // Exponentially weighted success rate in [0, 1].
+  health: number;
+  inFlight: number;
+  waiters: Array<() => void>;
+  cooldownUntil: number;
+  consecutiveFailures: number;
+}
+
+const HEALTH_SMOOTHING = 0.3;
+const MAX_BACKOFF_MS = 15_000;
+
+const statsStorage = new AsyncLocalStorage<RpcUsageStats>();
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isRetryableStatus = (status: number): boolean => status === 429 || status >= 500;
+
+// Some providers rate limit with HTTP 200 and a JSON-RPC error instead of a 429.
+const RATE_LIMIT_RPC_ERROR_CODES = new Set([-32005, 429]);
+
+// A batch response counts as rate limited when any of its entries is.
+const isRateLimitedBody = (body: string): boolean => {
+  if (!body.includes('"error"')) {
+    return false;
+  }
+
+  try {
+    const parsed = JSON.parse(body) as unknown;
+    return (Array.isArray(parsed) ? parsed : [parsed]).some((entry) => {
+      const code = (entry as { error?: { code?: unknown } } | null)?.error?.code;
+      return typeof code === "number" && RATE_LIMIT_RPC_ERROR_CODES.has(code);
+    });
+  } catch {
+    return false;
+  }
+};
+
+const parseRetryAfterMs = (response: Response): number => {
+  const header = response.headers.get("retry-after");
+  if (!header) {
+    return 0;
+  }
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(header);
+  return Number.isFinite(date) ? Math.max(0, date - Date.now()) : 0;
+};
+
+const emptyStats = (): RpcUsageStats => ({ requests: 0, retries: 0, retriedRequests: 0, failedRequests: 0 });
+
+/**
+ * Runs `task` with its own RPC counters and returns them next to the result. Requests made by concurrent tasks are
+ * counted separately because the counters follow the async context.
+ */
+export const withRpcUsageStats = async <T>(task: () => Promise<T>): Promise<{ result: T; stats: RpcUsageStats }> => {
+  const stats = emptyStats();
+  const result = await statsStorage.run(stats, task);
+
+  return { result, stats: { ...stats } };
+};
+
+/**
+ * A `fetch` replacement for JSON-RPC traffic spread over several endpoints. Each request goes to the healthiest
+ * endpoint with a free slot; 429, 5xx, JSON-RPC rate-limit errors, timeouts and network errors put that endpoint on an
+ * exponential cooldown and the request is retried, usually on another endpoint.
+ */
+export const createRpcPoolFetch = (options: RpcPoolOptions): typeof fetch => {
+  if (options.endpoints.length === 0) {
+    throw new Error("At least one RPC endpoint is required");
+  }
+
+  const endpoints: EndpointState[] = options.endpoints.map((url, order) => ({
+    url,
+    order,
+    health: 1,
+    inFlight: 0,
+    waiters: [],
+    cooldownUntil: 0,
+    consecutiveFailures: 0
+  }));
+
+  const backoffMs = (failures: number): number => {
+    return Math.min(MAX_BACKOFF_MS, options.backoffBaseMs * 2 ** Math.max(0, failures - 1));
+  };
+
+  // Healthy endpoints first, then the least loaded, then configuration order. Endpoints cooling down are only used
+  // when every endpoint is cooling down, and then the one that recovers first wins.
+  const pickEndpoint = (now: number): EndpointState => {
+    const ready = endpoints.filter((endpoint) => endpoint.cooldownUntil <= now);
+    if (ready.length === 0) {
+      return endpoints.reduce((best, endpoint) => (endpoint.cooldownUntil < best.cooldownUntil ? endpoint : best));
+    }
+
+    const score = (endpoint: EndpointState): number => {
+      return endpoint.health - endpoint.inFlight / options.maxConcurrencyPerEndpoint;
+    };
+
+    return ready.reduce((best, endpoint) => {
+      const difference = score(endpoint) - score(best);
+      if (difference > 1e-9 || (Math.abs(difference) <= 1e-9 && endpoint.order < best.order)) {
+        return endpoint;
+      }
+
+      return best;
+    });
+  };
+
+  const acquire = async (endpoint: EndpointState): Promise<void> => {
+    if (endpoint.inFlight < options.maxConcurrencyPerEndpoint) {
+      endpoint.inFlight += 1;
+      return;
+    }
+
+    // The releasing request hands its slot over directly, so inFlight stays unchanged.
+    await new Promise<void>((resolve) => endpoint.waiters.push(resolve));
+  };
+
+  const release = (endpoint: EndpointState): void => {
+    const next = endpoint.waiters.shift();
+    if (next) {
+      next();
+      return;
+    }
+
+    endpoint.inFlight -= 1;
+  };
+
+  const recordSuccess = (endpoint: EndpointState): void => {
+    endpoint.health = endpoint.health * (1 - HEALTH_SMOOTHING) + HEALTH_SMOOTHING;
+    endpoint.consecutiveFailures = 0;
+  };
+
+  const recordFailure = (endpoint: EndpointState, retryAfterMs: number): number => {
+    endpoint.health *= 1 - HEALTH_SMOOTHING;
+    endpoint.consecutiveFailures += 1;
+
+    const delay = Math.max(retryAfterMs, backoffMs(endpoint.consecutiveFailures));
+    endpoint.cooldownUntil = Date.now() + delay;
+    return delay;
+  };
+
+  // The timeout covers the body as well as the headers, so a response that stalls mid-body fails over like any
+  // other timeout. A retryable response is cancelled unread unless it is the last attempt and goes back to the caller.
+  const attempt = async (
+    endpoint: EndpointState,
+    init: RequestInit | undefined,
+    isLastAttempt: boolean
+  ): Promise<{ response: Response; retryable: boolean }> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), options.requestTimeoutMs);
+
+    try {
+      const response = await fetch(endpoint.url, { ...init, signal: controller.signal });
+      const retryableStatus = isRetryableStatus(response.status);
+      if (retryableStatus && !isLastAttempt) {
+        await response.body?.cancel();
+        return { response, retryable: true };
+      }
+
+      // The body has to be read to spot a JSON-RPC rate limit, so the caller gets a copy built from it.
+      const body = await response.text();
+      return {
+        response: new Response(body, {
+          status: response.status,
+          statusText: response.statusText,
+          headers: response.headers
+        }),
+        retryable: retryableStatus || (response.ok && isRateLimitedBody(body))
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  return async (_input, init) => {
+    const stats = statsStorage.getStore();
+    let lastError: unknown = null;
+    let lastResponse: Response | null = null;
+
+    if (stats) {
+      stats.requests += 1;
+    }
+
+    for (let attemptIndex = 0; attemptIndex <= options.maxRetries; attemptIndex += 1) {
+      if (attemptIndex > 0 && stats) {
+        stats.retries += 1;
+        if (attemptIndex === 1) {
+          stats.retriedRequests += 1;
+        }
+      }
+
+      const endpoint = pickEndpoint(Date.now());
+      const waitMs = endpoint.cooldownUntil - Date.now();
+      if (waitMs > 0) {
+        await sleep(waitMs);
+      }
+
+      await acquire(endpoint);
+
+      let retryAfterMs = 0;
+      try {
+        const isLastAttempt = attemptIndex === options.maxRetries;
+        const { response, retryable } = await attempt(endpoint, init, isLastAttempt);
+        if (!retryable) {
+          recordSuccess(endpoint);
+          return response;
+        }
+
+        retryAfterMs = parseRetryAfterMs(response);
+        lastError = null;
+        // Only the final response is handed back; earlier ones were cancelled or read to the end.
+        lastResponse = isLastAttempt ? response : null;
+      } catch (error) {
+        lastError = error;
+        lastResponse = null;
+      } finally {
+        release(endpoint);
+      }
+
+      const delay = recordFailure(endpoint, retryAfterMs);
+
+      // With another endpoint available the retry fails over right away; otherwise it waits out the cooldown.
+      const alternative = endpoints.some((candidate) => candidate !== endpoint && candidate.cooldownUntil <= Date.now());
+      if (attemptIndex < options.maxRetries && !alternative) {
+        await sleep(delay);
+      }
+    }
+
+    if (stats) {
+      stats.failedRequests += 1;
+    }
+
+    if (lastResponse) {
+      return lastResponse;
+    }
+
+    throw lastError instanceof Error ? lastError : new Error("RPC request failed");
+  };
+};
@@ -1,4 +1,5 @@
 import {
+  type ConfirmedSignatureInfo,
   Connection,
   type ParsedAccountData,
   type ParsedInstruction,
@@ -9,8 +10,20 @@ import {
   type TokenBalance
 } from "@solana/web3.js";
 import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import { resolveAccountKeys } from "@/lib/account-keys";
 import { appConfig } from "@/lib/config";
-import type { TokenProgramKind, TransferEvent } from "@/lib/types";
+import type { DiagnosticsRecorder } from "@/lib/diagnostics";
+import { createRpcPoolFetch } from "@/lib/rpc-pool";
+import { emptyTxCacheUsage, fetchParsedTransactionsCached } from "@/lib/tx-cache";
+import type {
+  FundingSource,
+  MintSecurity,
+  SupplyChangeKind,
+  SupplyEvent,
+  TokenProgramKind,
+  TransferEvent,
+  TxCacheUsage
+} from "@/lib/types";
 import { toUiAmount } from "@/lib/math";
 
 let sharedConnection: Connection | null = null;
@@ -24,6 +37,42 @@ interface MintMetadata {
   tokenName: string | null;
   tokenSymbol: string | null;
   tokenUri: string | null;
+  security: MintSecurity;
+  transferFees: TransferFeeSchedule | null;
+}
+
+interface TransferFee {
+  epoch: bigint;
+  maximumFee: bigint;
+  basisPoints: bigint;
+}
+
+/**
+ * Token-2022 transfer-fee config. `newer` applies from its epoch on, `older` before it. Fees on plain `transfer` and
+ * `transferChecked` are withheld implicitly, so they are recomputed from this schedule.
+ */
+export interface TransferFeeSchedule {
+  older: TransferFee;
+  newer: TransferFee;
+}
+
+/**
+ * Addresses whose recent signatures feed edge collection. `accounts` holds token accounts or the mint, which see
+ * transfers that never touch the owner wallet's own signature list.
+ */
+export interface SignatureSources {
+  wallets: string[];
+  accounts?: string[];
+}
+
+export interface SignatureLimits {
+  // Most signatures paged per address.
+  perAddress: number;
+  // Most signatures kept across all addresses.
+  total: number;
+  // Oldest block time (unix seconds) and slot to page back to; 0 leaves that bound open.
+  sinceBlockTime: number;
+  untilSlot: number;
 }
 
 interface TokenAccountMetadata {
@@ -31,6 +80,9 @@ interface TokenAccountMetadata {
   owner?: string;
 }
 
+// Largest page getSignaturesForAddress accepts.
+const SIGNATURE_PAGE_SIZE = 1000;
+
 const METADATA_PROGRAM_ID = new PublicKey("metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s");
 
 const runInBatches = async <T, R>(
@@ -49,23 +101,6 @@ const runInBatches = async <T, R>(
   return results;
 };
 
-const normalizeAccountKey = (value: unknown): string | null => {
-  if (typeof value === "string") {
-    return value;
-  }
-
-  if (value && typeof value === "object" && "pubkey" in value) {
-    const pubkey = (value as { pubkey: string | PublicKey }).pubkey;
-    return typeof pubkey === "string" ? pubkey : pubkey.toBase58();
-  }
-
-  if (value instanceof PublicKey) {
-    return value.toBase58();
-  }
-
-  return null;
-};
-
 const normalizeDisplayString = (value: string | null): string | null => {
   if (!value) {
     return null;
@@ -134,6 +169,49 @@ const extractTokenMetadataFromParsedMint = (
   return { tokenName, tokenSymbol, tokenUri };
 };
 
+const extractMintSecurity = (parsedInfo: Record<string, unknown>): MintSecurity => {
+  const security: MintSecurity = {
+    mintAuthority: typeof parsedInfo.mintAuthority === "string" ? parsedInfo.mintAuthority : null,
+    freezeAuthority: typeof parsedInfo.freezeAuthority === "string" ? parsedInfo.freezeAuthority : null,
+    extensions: [],
+    transferFeeBasisPoints: null,
+    permanentDelegate: null,
+    transferHookProgram: null,
+    nonTransferable: false
+  };
+
+  const extensions = Array.isArray(parsedInfo.extensions) ? parsedInfo.extensions : [];
+  for (const extension of extensions) {
+    if (!extension || typeof extension !== "object") {
+      continue;
+    }
+
+    const { extension: name, state } = extension as { extension?: unknown; state?: Record<string, unknown> };
+    if (typeof name !== "string") {
+      continue;
+    }
+
+    security.extensions.push(name);
+
+    if (name === "transferFeeConfig") {
+      // The newer fee takes over at its epoch; the higher of the two is what holders may pay.
+      const fees = [state?.newerTransferFee, state?.olderTransferFee].map((fee) => {
+        const basisPoints = (fee as { transferFeeBasisPoints?: unknown } | undefined)?.transferFeeBasisPoints;
+        return typeof basisPoints === "number" ? basisPoints : 0;
+      });
+      security.transferFeeBasisPoints = Math.max(...fees);
+    } else if (name === "permanentDelegate") {
+      security.permanentDelegate = readNestedField(state, "delegate");
+    } else if (name === "transferHook") {
+      security.transferHookProgram = readNestedField(state, "programId");
+    } else if (name === "nonTransferable") {
+      security.nonTransferable = true;
+    }
+  }
+
+  return security;
+};
+
 const fetchMetaplexTokenMetadata = async (
   mint: PublicKey
 ): Promise<{ tokenName: string | null; tokenSymbol: string | null; tokenUri: string | null }> => {
@@ -176,9 +254,7 @@ const fetchMetaplexTokenMetadata = async (
   };
 };
 
-const parseAmountRaw = (instructionInfo: Record<string, unknown>): bigint | null => {
-  const raw = instructionInfo.amount ?? (instructionInfo.tokenAmount as { amount?: string } | undefined)?.amount;
-
+const toBigIntOrNull = (raw: unknown): bigint | null => {
   if (typeof raw === "string") {
     return BigInt(raw);
   }
@@ -190,10 +266,57 @@ const parseAmountRaw = (instructionInfo: Record<string, unknown>): bigint | null
   return null;
 };
 
+const parseAmountRaw = (instructionInfo: Record<string, unknown>): bigint | null => {
+  return toBigIntOrNull(
+    instructionInfo.amount ?? (instructionInfo.tokenAmount as { amount?: string } | undefined)?.amount
+  );
+};
+
+const parseFeeRaw = (instructionInfo: Record<string, unknown>): bigint | null => {
+  return toBigIntOrNull(
+    (instructionInfo.feeAmount as { amount?: string } | undefined)?.amount ?? instructionInfo.fee
+  );
+};
+
+const parseTransferFee = (value: unknown): TransferFee => {
+  const fee = (value ?? {}) as { epoch?: unknown; maximumFee?: unknown; transferFeeBasisPoints?: unknown };
+
+  return {
+    epoch: toBigIntOrNull(fee.epoch) ?? 0n,
+    maximumFee: toBigIntOrNull(fee.maximumFee) ?? 0n,
+    basisPoints: toBigIntOrNull(fee.transferFeeBasisPoints) ?? 0n
+  };
+};
+
+const extractTransferFeeSchedule = (parsedInfo: Record<string, unknown>): TransferFeeSchedule | null => {
+  const extensions = Array.isArray(parsedInfo.extensions) ? parsedInfo.extensions : [];
+  const config = extensions.find((extension) => {
+    return Boolean(extension && typeof extension === "object" && extension.extension === "transferFeeConfig");
+  }) as { state?: Record<string, unknown> } | undefined;
+
+  if (!config?.state) {
+    return null;
+  }
+
+  return {
+    older: parseTransferFee(config.state.olderTransferFee),
+    newer: parseTransferFee(config.state.newerTransferFee)
+  };
+};
+
+// Same rounding as the Token-2022 program: basis points of the amount, rounded up, capped at the maximum fee.
+const calculateTransferFee = (schedule: TransferFeeSchedule, epoch: bigint, amountRaw: bigint): bigint => {
+  const fee = epoch >= schedule.newer.epoch ? schedule.newer : schedule.older;
+  if (fee.basisPoints === 0n || amountRaw === 0n) {
+    return 0n;
+  }
+
+  const rounded = (amountRaw * fee.basisPoints + 9_999n) / 10_000n;
+  return rounded < fee.maximumFee ? rounded : fee.maximumFee;
+};
+
 const extractTokenAccountMetadata = (tx: ParsedTransactionWithMeta): Map<string, TokenAccountMetadata> => {
-  const accountKeys = (tx.transaction.message.accountKeys as unknown[])
-    .map(normalizeAccountKey)
-    .filter((value): value is string => Boolean(value));
+  const accountKeys = resolveAccountKeys(tx);
 
   const map = new Map<string, TokenAccountMetadata>();
   const balances: TokenBalance[] = [
@@ -239,8 +362,17 @@ const extractParsedInstructions = (tx: ParsedTransactionWithMeta): ParsedInstruc
 
 export const getConnection = (): Connection => {
   if (!sharedConnection) {
-    sharedConnection = new Connection(appConfig.rpcUrl, {
-      commitment: "confirmed"
+    sharedConnection = new Connection(appConfig.rpcUrls[0] ?? appConfig.rpcUrl, {
+      commitment: "confirmed",
+      // Retries and rate limits are handled by the endpoint pool, which can fail over instead of waiting.
+      disableRetryOnRateLimit: true,
+      fetch: createRpcPoolFetch({
+        endpoints: appConfig.rpcUrls,
+        maxConcurrencyPerEndpoint: appConfig.rpcMaxConcurrencyPerEndpoint,
+        maxRetries: appConfig.rpcMaxRetries,
+        backoffBaseMs: appConfig.rpcBackoffBaseMs,
+        requestTimeoutMs: appConfig.rpcRequestTimeoutMs
+      })
     });
   }
 
@@ -251,6 +383,15 @@ export const toPublicKey = (value: string): PublicKey => {
   return new PublicKey(value);
 };
 
+export const isValidPublicKey = (value: string): boolean => {
+  try {
+    toPublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
 export const fetchMintMetadata = async (mint: PublicKey): Promise<MintMetadata> => {
   const connection = getConnection();
   const accountInfo = await connection.getParsedAccountInfo(mint, "confirmed");
@@ -308,14 +449,19 @@ export const fetchMintMetadata = async (mint: PublicKey): Promise<MintMetadata>
     tokenProgramId,
     tokenName,
     tokenSymbol,
-    tokenUri
+    tokenUri,
+    security: extractMintSecurity(parsedInfo),
+    transferFees: tokenProgram === "token-2022" ? extractTransferFeeSchedule(parsedInfo) : null
   };
 };
 
-export const fetchHolderBalancesByOwner = async (
-  mint: PublicKey,
-  tokenProgramId: PublicKey
-): Promise<Map<string, bigint>> => {
+export interface HolderScan {
+  balances: Map<string, bigint>;
+  // Token account addresses of each owner, in the order the program scan returned them.
+  tokenAccounts: Map<string, string[]>;
+}
+
+export const fetchHolderScan = async (mint: PublicKey, tokenProgramId: PublicKey): Promise<HolderScan> => {
   const connection = getConnection();
   const filters: GetProgramAccountsFilter[] = [
     { memcmp: { offset: 0, bytes: mint.toBase58() } }
@@ -331,7 +477,8 @@ export const fetchHolderBalancesByOwner = async (
     filters
   });
 
-  const holders = new Map<string, bigint>();
+  const balances = new Map<string, bigint>();
+  const accountsByOwner = new Map<string, string[]>();
 
   for (const tokenAccount of tokenAccounts) {
     if (!("parsed" in tokenAccount.account.data)) {
@@ -351,79 +498,168 @@ export const fetchHolderBalancesByOwner = async (
       continue;
     }
 
-    const previous = holders.get(owner) ?? 0n;
-    holders.set(owner, previous + BigInt(amountRaw));
+    const previous = balances.get(owner) ?? 0n;
+    balances.set(owner, previous + BigInt(amountRaw));
+
+    const ownerAccounts = accountsByOwner.get(owner);
+    if (ownerAccounts) {
+      ownerAccounts.push(tokenAccount.pubkey.toBase58());
+    } else {
+      accountsByOwner.set(owner, [tokenAccount.pubkey.toBase58()]);
+    }
   }
 
-  return holders;
+  return { balances, tokenAccounts: accountsByOwner };
 };
 
-const collectRecentSignatures = async (
-  wallets: string[],
-  txLimit: number,
-  maxSignatures: number
-): Promise<string[]> => {
+export const fetchWalletTokenBalance = async (owner: PublicKey, mint: PublicKey): Promise<number> => {
   const connection = getConnection();
-  const signatureMap = new Map<string, number>();
+  const response = await connection.getParsedTokenAccountsByOwner(owner, { mint }, "confirmed");
+  let total = 0;
+
+  for (const account of response.value) {
+    const parsedData = account.account.data as ParsedAccountData;
+    const tokenAmount = (parsedData.parsed?.info as { tokenAmount?: { uiAmount?: number; uiAmountString?: string } })
+      ?.tokenAmount;
+
+    if (typeof tokenAmount?.uiAmountString === "string") {
+      total += Number.parseFloat(tokenAmount.uiAmountString);
+      continue;
+    }
 
-  await runInBatches(wallets, 8, async (wallet) => {
-    const options: SignaturesForAddressOptions = { limit: txLimit };
-    let signatures;
+    total += tokenAmount?.uiAmount ?? 0;
+  }
+
+  return total;
+};
+
+// Fetches one address's signatures newest first, following the `before` cursor until the per-address cap or the
+// window bound is reached. Pages fetched before a failure are kept.
+const fetchAddressSignatures = async (
+  connection: Connection,
+  address: string,
+  limits: SignatureLimits
+): Promise<{ signatures: ConfirmedSignatureInfo[]; error: unknown }> => {
+  const pubkey = new PublicKey(address);
+  const signatures: ConfirmedSignatureInfo[] = [];
+  let before: string | undefined;
+
+  while (signatures.length < limits.perAddress) {
+    const limit = Math.min(SIGNATURE_PAGE_SIZE, limits.perAddress - signatures.length);
+    const options: SignaturesForAddressOptions = { limit, before };
+    let page: ConfirmedSignatureInfo[];
 
     try {
-      signatures = await connection.getSignaturesForAddress(new PublicKey(wallet), options, "confirmed");
-    } catch {
-      return;
+      page = await connection.getSignaturesForAddress(pubkey, options, "confirmed");
+    } catch (error) {
+      return { signatures, error };
     }
 
-    for (const item of signatures) {
-      const blockTime = item.blockTime ?? 0;
-      const previous = signatureMap.get(item.signature);
-      if (previous === undefined || blockTime > previous) {
-        signatureMap.set(item.signature, blockTime);
+    for (const item of page) {
+      const beforeWindow =
+        (limits.untilSlot > 0 && item.slot < limits.untilSlot) ||
+        (limits.sinceBlockTime > 0 && typeof item.blockTime === "number" && item.blockTime < limits.sinceBlockTime);
+      if (beforeWindow) {
+        return { signatures, error: null };
       }
+
+      signatures.push(item);
     }
+
+    if (page.length < limit) {
+      break;
+    }
+
+    before = page[page.length - 1].signature;
+  }
+
+  return { signatures, error: null };
+};
+
+const collectRecentSignatures = async (
+  sources: SignatureSources,
+  limits: SignatureLimits,
+  diagnostics?: DiagnosticsRecorder
+): Promise<string[]> => {
+  const connection = getConnection();
+  const targets = [
+    ...sources.wallets.map((address) => ({ address, scope: "wallet" as const })),
+    ...(sources.accounts ?? []).map((address) => ({ address, scope: "account" as const }))
+  ];
+
+  const perAddress = await runInBatches(targets, 8, async (target) => {
+    const { signatures, error } = await fetchAddressSignatures(connection, target.address, limits);
+    if (error) {
+      // Keep the other addresses' signatures; the gap is reported instead of failing the whole scan.
+      diagnostics?.fail(target.scope, target.address, error);
+    } else {
+      diagnostics?.succeed();
+    }
+
+    return signatures;
   });
 
-  return [...signatureMap.entries()]
-    .sort((a, b) => b[1] - a[1])
-    .slice(0, maxSignatures)
-    .map(([signature]) => signature);
+  // Take signatures round-robin, newest first within each address, so one busy address cannot use up the global cap.
+  const blockTimes = new Map<string, number>();
+  const longest = Math.max(0, ...perAddress.map((signatures) => signatures.length));
+
+  for (let index = 0; index < longest && blockTimes.size < limits.total; index += 1) {
+    for (const signatures of perAddress) {
+      const item = signatures[index];
+      if (!item || blockTimes.has(item.signature)) {
+        continue;
+      }
+      if (blockTimes.size >= limits.total) {
+        break;
+      }
+
+      blockTimes.set(item.signature, item.blockTime ?? 0);
+    }
+  }
+
+  return [...blockTimes.entries()].sort((a, b) => b[1] - a[1]).map(([signature]) => signature);
 };
 
+// Parsed program names of the Token and Token-2022 programs.
+const TOKEN_PROGRAM_NAMES = new Set(["spl-token", "spl-token-2022"]);
+// Confidential transfers (Token-2022 `confidentialTransfer*`) carry encrypted amounts, so they cannot become edges.
+const TRANSFER_INSTRUCTION_TYPES = new Set(["transfer", "transferChecked", "transferCheckedWithFee"]);
+const SUPPLY_INSTRUCTION_KINDS = new Map<string, SupplyChangeKind>([
+  ["mintTo", "mint"],
+  ["mintToChecked", "mint"],
+  ["burn", "burn"],
+  ["burnChecked", "burn"]
+]);
+
+/**
+ * Token transfers of `mint` between distinct owners, with the gross amount sent, the fee withheld from it and the net
+ * amount received. `transferCheckedWithFee` states its fee; for plain `transfer` and `transferChecked` on a mint with
+ * a transfer-fee schedule the fee is recomputed for the transaction's epoch. Mints into and burns from owners' token
+ * accounts in the same transactions are returned as supply events.
+ */
 export const collectTransferEventsForMint = async (
   mint: PublicKey,
-  wallets: string[],
-  txLimit: number,
-  maxSignatures: number
-): Promise<TransferEvent[]> => {
-  if (wallets.length === 0) {
-    return [];
+  sources: SignatureSources,
+  limits: SignatureLimits,
+  diagnostics?: DiagnosticsRecorder,
+  transferFees: TransferFeeSchedule | null = null
+): Promise<{ events: TransferEvent[]; supplyEvents: SupplyEvent[]; txCache: TxCacheUsage }> => {
+  if (sources.wallets.length === 0 && (sources.accounts ?? []).length === 0) {
+    return { events: [], supplyEvents: [], txCache: emptyTxCacheUsage() };
   }
 
-  const signatures = await collectRecentSignatures(wallets, txLimit, maxSignatures);
+  const signatures = await collectRecentSignatures(sources, limits, diagnostics);
   if (signatures.length === 0) {
-    return [];
+    return { events: [], supplyEvents: [], txCache: emptyTxCacheUsage() };
   }
 
   const connection = getConnection();
-  const transactions: ParsedTransactionWithMeta[] = [];
-  for (let i = 0; i < signatures.length; i += 25) {
-    const txChunk = signatures.slice(i, i + 25);
-    const parsedChunk = await connection.getParsedTransactions(txChunk, {
-      commitment: "confirmed",
-      maxSupportedTransactionVersion: 0
-    });
-
-    for (const tx of parsedChunk) {
-      if (tx) {
-        transactions.push(tx);
-      }
-    }
-  }
+  const { transactions, usage } = await fetchParsedTransactionsCached(connection, signatures, diagnostics);
+  const epochSchedule = transferFees ? await connection.getEpochSchedule() : null;
 
   const targetMint = mint.toBase58();
   const transferEvents: TransferEvent[] = [];
+  const supplyEvents: SupplyEvent[] = [];
 
   for (const tx of transactions) {
     const signature = tx.transaction.signatures[0];
@@ -436,18 +672,31 @@ export const collectTransferEventsForMint = async (
 
     for (const instruction of instructions) {
       const parsed = instruction.parsed;
-      if (!parsed || typeof parsed !== "object") {
+      if (!parsed || typeof parsed !== "object" || !TOKEN_PROGRAM_NAMES.has(instruction.program)) {
         continue;
       }
 
       const parsedData = parsed as { type?: string; info?: Record<string, unknown> };
-      const instructionType = parsedData.type?.toLowerCase() ?? "";
-      if (!instructionType.startsWith("transfer")) {
+      const instructionType = parsedData.type ?? "";
+      const info = parsedData.info;
+      if (!info) {
         continue;
       }
 
-      const info = parsedData.info;
-      if (!info) {
+      const supplyKind = SUPPLY_INSTRUCTION_KINDS.get(instructionType);
+      if (supplyKind) {
+        const account = typeof info.account === "string" ? info.account : null;
+        const accountMeta = account ? tokenMetadata.get(account) : undefined;
+        const amountRaw = parseAmountRaw(info);
+        const supplyMint = (typeof info.mint === "string" ? info.mint : null) ?? accountMeta?.mint;
+
+        if (accountMeta?.owner && supplyMint === targetMint && amountRaw !== null && amountRaw > 0n) {
+          supplyEvents.push({ kind: supplyKind, owner: accountMeta.owner, amountRaw, signature });
+        }
+        continue;
+      }
+
+      if (!TRANSFER_INSTRUCTION_TYPES.has(instructionType)) {
         continue;
       }
 
@@ -458,8 +707,8 @@ export const collectTransferEventsForMint = async (
         continue;
       }
 
-      const amountRaw = parseAmountRaw(info);
-      if (amountRaw === null || amountRaw <= 0n) {
+      const grossRaw = parseAmountRaw(info);
+      if (grossRaw === null || grossRaw <= 0n) {
         continue;
       }
 
@@ -479,14 +728,140 @@ export const collectTransferEventsForMint = async (
         continue;
       }
 
+      let feeRaw = instructionType === "transferCheckedWithFee" ? parseFeeRaw(info) ?? 0n : 0n;
+      if (instructionType !== "transferCheckedWithFee" && transferFees && epochSchedule) {
+        feeRaw = calculateTransferFee(transferFees, BigInt(epochSchedule.getEpoch(tx.slot)), grossRaw);
+      }
+
       transferEvents.push({
         signature,
         from: fromOwner,
         to: toOwner,
-        amountRaw
+        grossRaw,
+        feeRaw,
+        netRaw: grossRaw - feeRaw
       });
     }
   }
 
-  return transferEvents;
+  return { events: transferEvents, supplyEvents, txCache: usage };
+};
+
+// Oldest successful signatures checked per wallet for the funding transfer.
+const FUNDING_CANDIDATE_SIGNATURES = 5;
+const SYSTEM_FUNDING_TYPES = new Set(["transfer", "transferWithSeed", "createAccount", "createAccountWithSeed"]);
+
+/**
+ * Pages back to an address's first signatures and returns the two oldest pages, newest first like every signature
+ * page. Keeping the page before the last means a history just over a page boundary still yields a full page of its
+ * oldest signatures. Returns null when the history is longer than `maxPages` pages.
+ */
+export const fetchOldestSignatures = async (
+  connection: Connection,
+  address: string,
+  maxPages: number
+): Promise<ConfirmedSignatureInfo[] | null> => {
+  const pubkey = new PublicKey(address);
+  let before: string | undefined;
+  let previousPage: ConfirmedSignatureInfo[] = [];
+  let lastPage: ConfirmedSignatureInfo[] = [];
+
+  for (let page = 0; page < maxPages; page += 1) {
+    const signatures = await connection.getSignaturesForAddress(
+      pubkey,
+      { limit: SIGNATURE_PAGE_SIZE, before },
+      "confirmed"
+    );
+    if (signatures.length === 0) {
+      return [...previousPage, ...lastPage];
+    }
+
+    previousPage = lastPage;
+    lastPage = signatures;
+    if (signatures.length < SIGNATURE_PAGE_SIZE) {
+      return [...previousPage, ...lastPage];
+    }
+
+    before = signatures[signatures.length - 1].signature;
+  }
+
+  return null;
+};
+
+const findFundingTransfer = (
+  tx: ParsedTransactionWithMeta,
+  wallet: string
+): { funder: string; lamports: bigint } | null => {
+  for (const instruction of extractParsedInstructions(tx)) {
+    const parsedData = instruction.parsed as { type?: string; info?: Record<string, unknown> } | undefined;
+    if (instruction.program !== "system" || !SYSTEM_FUNDING_TYPES.has(parsedData?.type ?? "")) {
+      continue;
+    }
+
+    const info = parsedData?.info ?? {};
+    const funder = typeof info.source === "string" ? info.source : null;
+    const recipient = typeof info.destination === "string" ? info.destination : info.newAccount;
+    const lamports = typeof info.lamports === "number" || typeof info.lamports === "string" ? BigInt(info.lamports) : 0n;
+
+    if (funder && funder !== wallet && recipient === wallet && lamports > 0n) {
+      return { funder, lamports };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Finds the first native GOR transfer into each wallet by paging back to its oldest signatures. Wallets with more
+ * than `maxPages` pages of history are skipped rather than paged further, since a long-lived wallet's first funder
+ * says little about who controls it today.
+ */
+export const findFundingSources = async (
+  wallets: string[],
+  maxPages: number,
+  diagnostics?: DiagnosticsRecorder
+): Promise<{ sources: FundingSource[]; txCache: TxCacheUsage }> => {
+  const connection = getConnection();
+
+  const candidates = await runInBatches(wallets, 8, async (wallet) => {
+    try {
+      const oldest = await fetchOldestSignatures(connection, wallet, maxPages);
+      diagnostics?.succeed();
+
+      const signatures = (oldest ?? [])
+        .filter((item) => !item.err)
+        .slice(-FUNDING_CANDIDATE_SIGNATURES)
+        .reverse()
+        .map((item) => item.signature);
+
+      return { wallet, signatures };
+    } catch (error) {
+      diagnostics?.fail("wallet", wallet, error);
+      return { wallet, signatures: [] };
+    }
+  });
+
+  const signatures = candidates.flatMap((candidate) => candidate.signatures);
+  if (signatures.length === 0) {
+    return { sources: [], txCache: emptyTxCacheUsage() };
+  }
+
+  const { transactions, usage } = await fetchParsedTransactionsCached(connection, signatures, diagnostics);
+  const bySignature = new Map(transactions.map((tx) => [tx.transaction.signatures[0], tx]));
+  const sources: FundingSource[] = [];
+
+  for (const { wallet, signatures: walletSignatures } of candidates) {
+    for (const signature of walletSignatures) {
+      const tx = bySignature.get(signature);
+      const funding = tx ? findFundingTransfer(tx, wallet) : null;
+      if (!funding) {
+        continue;
+      }
+
+      sources.push({ wallet, ...funding, signature, blockTime: tx?.blockTime ?? null });
+      break;
+    }
+  }
+
+  return { sources, txCache: usage };
 };
@@ -0,0 +1,57 @@
+import type { EdgeCollectionMode } from "@/lib/types";
+
+export type ScanLimitKey = "holderLimit" | "edgeWalletLimit" | "txLimit" | "maxSignatures" | "sinceHours" | "sniperSlots";
+
+export interface ScanLimit {
+  query: string;
+  label: string;
+  min: number;
+  max: number;
+  defaultValue: number;
+}
+
+/**
+ * Query parameter name and accepted range of each snapshot scan limit. Shared by the API routes, which clamp to these
+ * ranges, and the dashboard, which offers the same ranges as controls.
+ */
+export const SCAN_LIMITS: Record<ScanLimitKey, ScanLimit> = {
+  holderLimit: { query: "n", label: "Holders", min: 20, max: 300, defaultValue: 120 },
+  edgeWalletLimit: { query: "edgeWallets", label: "Edge wallets", min: 5, max: 80, defaultValue: 30 },
+  txLimit: { query: "txLimit", label: "Tx per address", min: 20, max: 2000, defaultValue: 120 },
+  maxSignatures: { query: "maxSignatures", label: "Max signatures", min: 100, max: 5000, defaultValue: 1500 },
+  sinceHours: { query: "sinceHours", label: "History hours (0 = all)", min: 0, max: 8760, defaultValue: 0 },
+  sniperSlots: { query: "sniperSlots", label: "Sniper window (slots)", min: 1, max: 1000, defaultValue: 10 }
+};
+
+export const SCAN_LIMIT_KEYS = Object.keys(SCAN_LIMITS) as ScanLimitKey[];
+
+export const EDGE_COLLECTION_MODES: Record<EdgeCollectionMode, { label: string; description: string }> = {
+  wallets: { label: "Wallets", description: "Signatures of the top holder wallets" },
+  "token-accounts": {
+    label: "Wallets + token accounts",
+    description: "Also pages the holders' token account addresses, which see transfers the owner wallet does not"
+  },
+  "token-accounts-mint": {
+    label: "Wallets + token accounts + mint",
+    description: "Also pages the mint address itself"
+  }
+};
+
+export const EDGE_COLLECTION_MODE_QUERY = "edgeMode";
+
+export const EXCLUDE_PROGRAM_HOLDERS_QUERY = "excludeProgramHolders";
+
+export const METRICS_EXCLUDE_LABELED_QUERY = "metricsExcludeLabeled";
+
+export const FUNDING_EDGES_QUERY = "funding";
+
+export const CLUSTER_FUNDING_QUERY = "clusterFunding";
+
+export const DETECT_SNIPERS_QUERY = "snipers";
+
+export const parseEdgeCollectionMode = (
+  value: string | null | undefined,
+  fallback: EdgeCollectionMode
+): EdgeCollectionMode => {
+  return value && Object.hasOwn(EDGE_COLLECTION_MODES, value) ? (value as EdgeCollectionMode) : fallback;
+};
@@ -1,12 +1,14 @@
 import { appConfig } from "@/lib/config";
+import {
+  findLatestStoredSnapshot,
+  getSnapshotStore,
+  type StoredSnapshot,
+  type StoredSnapshotSummary
+} from "@/lib/snapshot-store";
 import type { BuildSnapshotOptions, TokenSnapshot } from "@/lib/types";
 
-interface CacheEntry {
-  expiresAt: number;
-  snapshot: TokenSnapshot;
-}
-
-const cache = new Map<string, CacheEntry>();
+// Hot layer in front of the persistent store so repeat requests skip the disk read.
+const cache = new Map<string, StoredSnapshot>();
 
 export const buildSnapshotCacheKey = (mint: string, options: Required<BuildSnapshotOptions>): string => {
   return [
@@ -14,27 +16,59 @@ export const buildSnapshotCacheKey = (mint: string, options: Required<BuildSnaps
     options.holderLimit,
     options.edgeWalletLimit,
     options.txLimit,
-    options.maxSignatures
+    options.maxSignatures,
+    options.sinceHours,
+    options.untilSlot,
+    options.edgeMode,
+    options.excludeProgramHolders,
+    options.metricsExcludeLabeled,
+    options.fundingEdges,
+    options.clusterFunding,
+    options.detectSnipers,
+    options.sniperSlots
   ].join(":");
 };
 
-export const getCachedSnapshot = (key: string): TokenSnapshot | null => {
-  const entry = cache.get(key);
-  if (!entry) {
-    return null;
+/**
+ * Returns the newest stored snapshot for these options, fresh or not. Falls back to the store on a cold start.
+ */
+export const getLastGoodSnapshot = async (
+  mint: string,
+  options: Required<BuildSnapshotOptions>
+): Promise<StoredSnapshot | null> => {
+  const key = buildSnapshotCacheKey(mint, options);
+  const cached = cache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const stored = await findLatestStoredSnapshot(mint, options);
+  if (stored) {
+    cache.set(key, stored);
   }
 
-  if (entry.expiresAt <= Date.now()) {
-    cache.delete(key);
+  return stored;
+};
+
+export const getCachedSnapshot = async (
+  mint: string,
+  options: Required<BuildSnapshotOptions>
+): Promise<StoredSnapshot | null> => {
+  const stored = await getLastGoodSnapshot(mint, options);
+  if (!stored || stored.createdAt + appConfig.snapshotTtlMs <= Date.now()) {
     return null;
   }
 
-  return entry.snapshot;
+  return stored;
 };
 
-export const setCachedSnapshot = (key: string, snapshot: TokenSnapshot): void => {
-  cache.set(key, {
-    snapshot,
-    expiresAt: Date.now() + appConfig.snapshotTtlMs
-  });
+export const setCachedSnapshot = async (
+  options: Required<BuildSnapshotOptions>,
+  snapshot: TokenSnapshot
+): Promise<StoredSnapshotSummary> => {
+  const summary = await getSnapshotStore().save(options, snapshot);
+
+  cache.set(buildSnapshotCacheKey(snapshot.mint, options), { ...summary, snapshot });
+
+  return summary;
 };
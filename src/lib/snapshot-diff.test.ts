@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { diffSnapshots } from "@/lib/snapshot-diff";
+import type { SnapshotNode, TokenSnapshot } from "@/lib/types";
+
+const holder = (address: string, balance: number): SnapshotNode => ({
+  address,
+  balance,
+  pctSupply: balance / 10,
+  clusterId: 0
+});
+
+const snapshotOf = (nodes: SnapshotNode[], timestamp: number): TokenSnapshot => ({
+  mint: "mint",
+  tokenProgram: "spl-token",
+  tokenName: null,
+  tokenSymbol: null,
+  tokenUri: null,
+  supply: 1000,
+  decimals: 6,
+  nodes,
+  edges: [],
+  clusters: [],
+  timestamp
+});
+
+describe("diffSnapshots", () => {
+  it("does not report holders below the top N that are only mapped on one side", () => {
+    const before = snapshotOf([holder("a", 50), holder("b", 40), holder("c", 30)], 1);
+    const after = snapshotOf([holder("a", 50), holder("b", 40), holder("d", 20)], 2);
+
+    expect(diffSnapshots(before, after, 2).nodes).toEqual([]);
+  });
+
+  it("reports a holder that left the top N without a zero balance", () => {
+    const before = snapshotOf([holder("a", 50), holder("b", 40)], 1);
+    const after = snapshotOf([holder("a", 50), holder("c", 45)], 2);
+
+    const change = diffSnapshots(before, after, 2).nodes.find((entry) => entry.address === "b");
+
+    expect(change).toMatchObject({ kind: "exited", balanceBefore: 40, balanceAfter: null, pctSupplyDelta: null });
+  });
+});
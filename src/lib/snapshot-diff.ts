@@ -0,0 +1,181 @@
+import type {
+  SnapshotClusterChange,
+  SnapshotDiff,
+  SnapshotEdge,
+  SnapshotEdgeChange,
+  SnapshotNode,
+  SnapshotNodeChange,
+  TokenSnapshot
+} from "@/lib/types";
+
+const BALANCE_EPSILON = 1e-9;
+
+/**
+ * Identifies an edge across snapshots, patches and the map. A funding link and a transfer edge between the same pair
+ * are different edges.
+ */
+export const snapshotEdgeKey = (edge: Pick<SnapshotEdge, "from" | "to" | "kind">): string => {
+  return edge.kind === "funding" ? `${edge.from}:${edge.to}:funding` : `${edge.from}:${edge.to}`;
+};
+
+// The synthetic mint and burn nodes hold nothing, so they are never ranked.
+export const holderNodes = (snapshot: TokenSnapshot): SnapshotNode[] => {
+  return snapshot.nodes.filter((node) => !node.synthetic);
+};
+
+const hasMoved = (before: number, after: number): boolean => {
+  return Math.abs(after - before) > BALANCE_EPSILON * Math.max(1, Math.abs(before));
+};
+
+const subtractKnown = (before: number | null, after: number | null): number | null => {
+  return before === null || after === null ? null : after - before;
+};
+
+// Orders changes by the supply share that moved, or by the known share when the other side is unknown.
+const changeWeight = (change: SnapshotNodeChange): number => {
+  return Math.abs(change.pctSupplyDelta ?? change.pctSupplyAfter ?? change.pctSupplyBefore ?? 0);
+};
+
+// A holder missing from one side only fell outside that snapshot's mapped holders, so its balance there is unknown
+// rather than zero. It is reported when it crossed the top N, never as accumulated or reduced.
+const diffNodes = (before: SnapshotNode[], after: SnapshotNode[], topN: number): SnapshotNodeChange[] => {
+  const beforeByAddress = new Map(before.map((node) => [node.address, node]));
+  const afterByAddress = new Map(after.map((node) => [node.address, node]));
+  const beforeTop = new Set(before.slice(0, topN).map((node) => node.address));
+  const afterTop = new Set(after.slice(0, topN).map((node) => node.address));
+  const addresses = new Set([...beforeByAddress.keys(), ...afterByAddress.keys()]);
+  const changes: SnapshotNodeChange[] = [];
+
+  for (const address of addresses) {
+    const previous = beforeByAddress.get(address);
+    const next = afterByAddress.get(address);
+    const balanceBefore = previous?.balance ?? null;
+    const balanceAfter = next?.balance ?? null;
+    const pctSupplyBefore = previous?.pctSupply ?? null;
+    const pctSupplyAfter = next?.pctSupply ?? null;
+
+    let kind: SnapshotNodeChange["kind"] | null = null;
+    if (afterTop.has(address) && !beforeTop.has(address)) {
+      kind = "entered";
+    } else if (beforeTop.has(address) && !afterTop.has(address)) {
+      kind = "exited";
+    } else if (balanceBefore !== null && balanceAfter !== null && hasMoved(balanceBefore, balanceAfter)) {
+      kind = balanceAfter > balanceBefore ? "accumulated" : "reduced";
+    }
+
+    if (!kind) {
+      continue;
+    }
+
+    changes.push({
+      address,
+      kind,
+      balanceBefore,
+      balanceAfter,
+      balanceDelta: subtractKnown(balanceBefore, balanceAfter),
+      pctSupplyBefore,
+      pctSupplyAfter,
+      pctSupplyDelta: subtractKnown(pctSupplyBefore, pctSupplyAfter)
+    });
+  }
+
+  return changes.sort((a, b) => changeWeight(b) - changeWeight(a));
+};
+
+const diffEdges = (before: SnapshotEdge[], after: SnapshotEdge[]): SnapshotEdgeChange[] => {
+  const beforeByKey = new Map(before.map((edge) => [snapshotEdgeKey(edge), edge]));
+  const afterByKey = new Map(after.map((edge) => [snapshotEdgeKey(edge), edge]));
+  const changes: SnapshotEdgeChange[] = [];
+
+  for (const [key, next] of afterByKey) {
+    const previous = beforeByKey.get(key);
+    if (previous && previous.txCount === next.txCount && !hasMoved(previous.amountSum, next.amountSum)) {
+      continue;
+    }
+
+    changes.push({
+      from: next.from,
+      to: next.to,
+      edgeKind: next.kind,
+      kind: previous ? "updated" : "added",
+      amountSumBefore: previous?.amountSum ?? 0,
+      amountSumAfter: next.amountSum,
+      txCountBefore: previous?.txCount ?? 0,
+      txCountAfter: next.txCount
+    });
+  }
+
+  for (const [key, previous] of beforeByKey) {
+    if (afterByKey.has(key)) {
+      continue;
+    }
+
+    changes.push({
+      from: previous.from,
+      to: previous.to,
+      edgeKind: previous.kind,
+      kind: "removed",
+      amountSumBefore: previous.amountSum,
+      amountSumAfter: 0,
+      txCountBefore: previous.txCount,
+      txCountAfter: 0
+    });
+  }
+
+  return changes.sort(
+    (a, b) => Math.abs(b.amountSumAfter - b.amountSumBefore) - Math.abs(a.amountSumAfter - a.amountSumBefore)
+  );
+};
+
+// Clusters are taken from the newer snapshot; the "before" share is what the same wallets held previously.
+const diffClusters = (before: TokenSnapshot, after: TokenSnapshot): SnapshotClusterChange[] => {
+  const beforeByAddress = new Map(before.nodes.map((node) => [node.address, node]));
+  const changes: SnapshotClusterChange[] = [];
+
+  for (const cluster of after.clusters) {
+    if (cluster.nodeAddresses.length < 2) {
+      continue;
+    }
+
+    const pctSupplyBefore = cluster.nodeAddresses.reduce(
+      (sum, address) => sum + (beforeByAddress.get(address)?.pctSupply ?? 0),
+      0
+    );
+
+    changes.push({
+      clusterId: cluster.id,
+      nodeAddresses: cluster.nodeAddresses,
+      pctSupplyBefore,
+      pctSupplyAfter: cluster.totalPctSupply,
+      pctSupplyDelta: cluster.totalPctSupply - pctSupplyBefore
+    });
+  }
+
+  return changes.sort((a, b) => Math.abs(b.pctSupplyDelta) - Math.abs(a.pctSupplyDelta));
+};
+
+/**
+ * Compares two snapshots of the same mint. `before` and `after` are ordered by timestamp by the caller.
+ */
+export const diffSnapshots = (before: TokenSnapshot, after: TokenSnapshot, topN?: number): SnapshotDiff => {
+  if (before.mint !== after.mint) {
+    throw new Error("Cannot diff snapshots of different mints");
+  }
+
+  const beforeHolders = holderNodes(before);
+  const afterHolders = holderNodes(after);
+  const effectiveTopN = Math.max(1, topN ?? Math.min(beforeHolders.length, afterHolders.length));
+  const nodes = diffNodes(beforeHolders, afterHolders, effectiveTopN);
+
+  return {
+    mint: after.mint,
+    fromTimestamp: before.timestamp,
+    toTimestamp: after.timestamp,
+    topN: effectiveTopN,
+    entered: nodes.filter((change) => change.kind === "entered").map((change) => change.address),
+    exited: nodes.filter((change) => change.kind === "exited").map((change) => change.address),
+    nodes,
+    edges: diffEdges(before.edges, after.edges),
+    clusters: diffClusters(before, after)
+  };
+};
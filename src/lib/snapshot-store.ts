@@ -0,0 +1,252 @@
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { assignClusters } from "@/lib/clusters";
+import { appConfig } from "@/lib/config";
+import { toPublicKey } from "@/lib/rpc";
+import type { BuildSnapshotOptions, TokenSnapshot } from "@/lib/types";
+
+export interface StoredSnapshotSummary {
+  id: string;
+  mint: string;
+  options: Required<BuildSnapshotOptions>;
+  createdAt: number;
+  nodeCount: number;
+  edgeCount: number;
+}
+
+export interface StoredSnapshot extends StoredSnapshotSummary {
+  snapshot: TokenSnapshot;
+}
+
+export interface SnapshotStore {
+  save: (options: Required<BuildSnapshotOptions>, snapshot: TokenSnapshot) => Promise<StoredSnapshotSummary>;
+  get: (id: string) => Promise<StoredSnapshot | null>;
+  list: (mint: string, limit?: number) => Promise<StoredSnapshotSummary[]>;
+}
+
+const INDEX_FILE = "index.json";
+
+// Compared over both key sets, so an entry stored before an option existed never matches a request that sets it.
+const sameOptions = (a: Required<BuildSnapshotOptions>, b: Required<BuildSnapshotOptions>): boolean => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)] as Array<keyof BuildSnapshotOptions>);
+  return [...keys].every((key) => a[key] === b[key]);
+};
+
+const buildSnapshotId = (mint: string, createdAt: number): string => `${mint}_${createdAt}`;
+
+const parseSnapshotId = (id: string): { mint: string; createdAt: number } | null => {
+  const [mint, createdAtRaw, ...rest] = id.split("_");
+  if (!mint || !createdAtRaw || rest.length > 0 || !/^\d+$/.test(createdAtRaw)) {
+    return null;
+  }
+
+  try {
+    toPublicKey(mint);
+  } catch {
+    return null;
+  }
+
+  return { mint, createdAt: Number(createdAtRaw) };
+};
+
+// Snapshots stored before server-side clustering existed get their clusters filled in on read.
+const withClusters = (stored: StoredSnapshot): StoredSnapshot => {
+  if (Array.isArray(stored.snapshot.clusters)) {
+    return stored;
+  }
+
+  const clustered = assignClusters(stored.snapshot.nodes, stored.snapshot.edges);
+  return { ...stored, snapshot: { ...stored.snapshot, ...clustered } };
+};
+
+const toSummary = (
+  options: Required<BuildSnapshotOptions>,
+  snapshot: TokenSnapshot,
+  createdAt: number
+): StoredSnapshotSummary => {
+  return {
+    id: buildSnapshotId(snapshot.mint, createdAt),
+    mint: snapshot.mint,
+    options,
+    createdAt,
+    nodeCount: snapshot.nodes.length,
+    edgeCount: snapshot.edges.length
+  };
+};
+
+/**
+ * Keeps snapshots for the lifetime of the process only. Useful for local runs where the disk is read-only.
+ */
+export const createMemorySnapshotStore = (maxPerMint: number): SnapshotStore => {
+  const byMint = new Map<string, StoredSnapshot[]>();
+
+  return {
+    save: async (options, snapshot) => {
+      const history = byMint.get(snapshot.mint) ?? [];
+      const lastCreatedAt = history[history.length - 1]?.createdAt ?? 0;
+      const summary = toSummary(options, snapshot, Math.max(snapshot.timestamp, lastCreatedAt + 1));
+
+      history.push({ ...summary, snapshot });
+      byMint.set(snapshot.mint, history.slice(-maxPerMint));
+
+      return summary;
+    },
+    get: async (id) => {
+      const parsed = parseSnapshotId(id);
+      if (!parsed) {
+        return null;
+      }
+
+      return byMint.get(parsed.mint)?.find((entry) => entry.id === id) ?? null;
+    },
+    list: async (mint, limit = maxPerMint) => {
+      const history = byMint.get(mint) ?? [];
+      return history
+        .slice(-limit)
+        .reverse()
+        .map(({ snapshot: _snapshot, ...summary }) => summary);
+    }
+  };
+};
+
+/**
+ * One directory per mint holding `<createdAt>.json` per snapshot and an `index.json` of summaries, oldest first.
+ */
+export const createJsonFileSnapshotStore = (rootDir: string, maxPerMint: number): SnapshotStore => {
+  const indexCache = new Map<string, StoredSnapshotSummary[]>();
+  const writeQueues = new Map<string, Promise<unknown>>();
+
+  const mintDir = (mint: string): string => path.join(rootDir, mint);
+
+  const writeJsonAtomic = async (filePath: string, value: unknown): Promise<void> => {
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(value));
+    await rename(tempPath, filePath);
+  };
+
+  const rebuildIndex = async (mint: string): Promise<StoredSnapshotSummary[]> => {
+    let files: string[];
+    try {
+      files = await readdir(mintDir(mint));
+    } catch {
+      return [];
+    }
+
+    const summaries: StoredSnapshotSummary[] = [];
+    for (const file of files) {
+      if (!/^\d+\.json$/.test(file)) {
+        continue;
+      }
+
+      try {
+        const stored = JSON.parse(await readFile(path.join(mintDir(mint), file), "utf8")) as StoredSnapshot;
+        const { snapshot: _snapshot, ...summary } = stored;
+        summaries.push(summary);
+      } catch {
+        // Skip partially written files.
+      }
+    }
+
+    return summaries.sort((a, b) => a.createdAt - b.createdAt);
+  };
+
+  const readIndex = async (mint: string): Promise<StoredSnapshotSummary[]> => {
+    const cached = indexCache.get(mint);
+    if (cached) {
+      return cached;
+    }
+
+    let index: StoredSnapshotSummary[] = [];
+    try {
+      index = JSON.parse(await readFile(path.join(mintDir(mint), INDEX_FILE), "utf8")) as StoredSnapshotSummary[];
+    } catch {
+      // Missing or unreadable index: rebuild it from the snapshot files that are still on disk.
+      index = await rebuildIndex(mint);
+    }
+
+    indexCache.set(mint, index);
+    return index;
+  };
+
+  // Serializes index updates per mint so concurrent saves cannot drop each other's entries.
+  const enqueue = <T>(mint: string, task: () => Promise<T>): Promise<T> => {
+    const previous = writeQueues.get(mint) ?? Promise.resolve();
+    const next = previous.then(task, task);
+    writeQueues.set(mint, next.catch(() => undefined));
+
+    return next;
+  };
+
+  return {
+    save: (options, snapshot) => {
+      return enqueue(snapshot.mint, async () => {
+        const index = await readIndex(snapshot.mint);
+        const lastCreatedAt = index[index.length - 1]?.createdAt ?? 0;
+        const summary = toSummary(options, snapshot, Math.max(snapshot.timestamp, lastCreatedAt + 1));
+        const stored: StoredSnapshot = { ...summary, snapshot };
+
+        await mkdir(mintDir(snapshot.mint), { recursive: true });
+        await writeJsonAtomic(path.join(mintDir(snapshot.mint), `${summary.createdAt}.json`), stored);
+
+        const nextIndex = [...index, summary];
+        const evicted = nextIndex.splice(0, Math.max(0, nextIndex.length - maxPerMint));
+
+        await writeJsonAtomic(path.join(mintDir(snapshot.mint), INDEX_FILE), nextIndex);
+        indexCache.set(snapshot.mint, nextIndex);
+
+        for (const entry of evicted) {
+          await rm(path.join(mintDir(entry.mint), `${entry.createdAt}.json`), { force: true });
+        }
+
+        return summary;
+      });
+    },
+    get: async (id) => {
+      const parsed = parseSnapshotId(id);
+      if (!parsed) {
+        return null;
+      }
+
+      try {
+        const raw = await readFile(path.join(mintDir(parsed.mint), `${parsed.createdAt}.json`), "utf8");
+        return withClusters(JSON.parse(raw) as StoredSnapshot);
+      } catch {
+        return null;
+      }
+    },
+    list: async (mint, limit = maxPerMint) => {
+      try {
+        toPublicKey(mint);
+      } catch {
+        return [];
+      }
+
+      const index = await readIndex(mint);
+      return index.slice(-limit).reverse();
+    }
+  };
+};
+
+let sharedStore: SnapshotStore | null = null;
+
+export const getSnapshotStore = (): SnapshotStore => {
+  if (!sharedStore) {
+    sharedStore =
+      appConfig.snapshotStoreBackend === "memory"
+        ? createMemorySnapshotStore(appConfig.snapshotStoreMaxPerMint)
+        : createJsonFileSnapshotStore(appConfig.snapshotStoreDir, appConfig.snapshotStoreMaxPerMint);
+  }
+
+  return sharedStore;
+};
+
+export const findLatestStoredSnapshot = async (
+  mint: string,
+  options: Required<BuildSnapshotOptions>
+): Promise<StoredSnapshot | null> => {
+  const store = getSnapshotStore();
+  const history = await store.list(mint);
+  const match = history.find((entry) => sameOptions(entry.options, options));
+
+  return match ? store.get(match.id) : null;
+};
@@ -0,0 +1,61 @@
+import { PublicKey } from "@solana/web3.js";
+import { describe, expect, it, vi } from "vitest";
+import type { HolderClassification } from "@/lib/holder-kinds";
+import { buildSnapshot } from "@/lib/snapshot";
+
+const MINT = "So11111111111111111111111111111111111111112";
+const POOL = "pool-vault";
+
+vi.mock("@/lib/rpc", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/rpc")>()),
+  fetchMintMetadata: vi.fn(async () => ({
+    decimals: 0,
+    supplyRaw: 1000n,
+    supply: 1000,
+    tokenProgram: "spl-token",
+    tokenProgramId: new PublicKey("TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"),
+    tokenName: null,
+    tokenSymbol: null,
+    tokenUri: null,
+    security: {},
+    transferFees: null
+  })),
+  fetchHolderScan: vi.fn(async () => ({
+    balances: new Map([
+      ["whale", 600n],
+      ["trader", 300n],
+      [POOL, 100n]
+    ]),
+    tokenAccounts: new Map()
+  })),
+  collectTransferEventsForMint: vi.fn(async () => ({
+    events: [],
+    supplyEvents: [],
+    txCache: { requested: 0, memoryHits: 0, diskHits: 0, fetched: 0, hitRate: 1 }
+  }))
+}));
+
+vi.mock("@/lib/holder-kinds", () => ({
+  classifyHolders: vi.fn(async (addresses: string[]) => {
+    return new Map<string, HolderClassification>(
+      addresses.map((address) => [
+        address,
+        address === POOL ? { holderKind: "pda", ownerProgram: "program" } : { holderKind: "wallet" }
+      ])
+    );
+  })
+}));
+
+describe("buildSnapshot", () => {
+  it("counts program-owned holders below the holder limit as not circulating", async () => {
+    const snapshot = await buildSnapshot(MINT, {
+      holderLimit: 1,
+      excludeProgramHolders: false,
+      fundingEdges: false,
+      detectSnipers: false
+    });
+
+    expect(snapshot.nodes.map((node) => node.address)).toEqual(["whale"]);
+    expect(snapshot.circulating).toMatchObject({ programOwned: 100, circulatingSupply: 900, pctSupply: 90 });
+  });
+});
@@ -1,60 +1,408 @@
-import { appConfig } from "@/lib/config";
+import { assignClusters } from "@/lib/clusters";
+import { appConfig, parseLimitParam } from "@/lib/config";
+import { createDiagnosticsRecorder, type DiagnosticsRecorder } from "@/lib/diagnostics";
+import { computeDistributionMetrics } from "@/lib/distribution";
+import { classifyHolders, type HolderClassification } from "@/lib/holder-kinds";
+import { rememberHolderScan, sortHoldersByBalance } from "@/lib/holders";
+import { labelProgramPools, loadAddressLabels } from "@/lib/labels";
 import { toPctSupply, toUiAmount } from "@/lib/math";
 import {
   collectTransferEventsForMint,
-  fetchHolderBalancesByOwner,
+  fetchHolderScan,
   fetchMintMetadata,
-  toPublicKey
+  findFundingSources,
+  toPublicKey,
+  type SignatureSources
 } from "@/lib/rpc";
-import type { BuildSnapshotOptions, SnapshotEdge, SnapshotNode, TokenSnapshot } from "@/lib/types";
+import { withRpcUsageStats } from "@/lib/rpc-pool";
+import { flagSnipers, scanLaunch } from "@/lib/snipers";
+import {
+  CLUSTER_FUNDING_QUERY,
+  DETECT_SNIPERS_QUERY,
+  EDGE_COLLECTION_MODE_QUERY,
+  EXCLUDE_PROGRAM_HOLDERS_QUERY,
+  FUNDING_EDGES_QUERY,
+  METRICS_EXCLUDE_LABELED_QUERY,
+  parseEdgeCollectionMode,
+  SCAN_LIMITS,
+  type ScanLimitKey
+} from "@/lib/scan-params";
+import { combineTxCacheUsage, emptyTxCacheUsage } from "@/lib/tx-cache";
+import type {
+  AddressLabel,
+  AddressLabelKind,
+  BuildSnapshotOptions,
+  CirculatingSupply,
+  DistributionMetrics,
+  EdgeCollectionMode,
+  FundingSource,
+  SnapshotEdge,
+  SnapshotNode,
+  SupplyChangeKind,
+  SupplyEvent,
+  TokenSnapshot
+} from "@/lib/types";
+
+const parseFlagParam = (value: string | null, fallback: boolean): boolean => {
+  if (value === null) {
+    return fallback;
+  }
+
+  return value === "1" || value === "true";
+};
 
 export const normalizeSnapshotOptions = (options: BuildSnapshotOptions = {}): Required<BuildSnapshotOptions> => {
   return {
     holderLimit: options.holderLimit ?? appConfig.holderLimit,
     edgeWalletLimit: options.edgeWalletLimit ?? appConfig.edgeWalletLimit,
     txLimit: options.txLimit ?? appConfig.txLimit,
-    maxSignatures: options.maxSignatures ?? appConfig.maxSignatures
+    maxSignatures: options.maxSignatures ?? appConfig.maxSignatures,
+    sinceHours: options.sinceHours ?? appConfig.sinceHours,
+    untilSlot: options.untilSlot ?? 0,
+    edgeMode: options.edgeMode ?? appConfig.edgeMode,
+    excludeProgramHolders: options.excludeProgramHolders ?? appConfig.excludeProgramHolders,
+    metricsExcludeLabeled: options.metricsExcludeLabeled ?? appConfig.metricsExcludeLabeled,
+    fundingEdges: options.fundingEdges ?? appConfig.fundingEdges,
+    clusterFunding: options.clusterFunding ?? appConfig.clusterFunding,
+    detectSnipers: options.detectSnipers ?? appConfig.detectSnipers,
+    sniperSlots: options.sniperSlots ?? appConfig.sniperSlots
   };
 };
 
-export const buildSnapshot = async (
+/**
+ * Reads the scan limits from a request query, clamped to the shared `SCAN_LIMITS` ranges, plus `untilSlot`, the
+ * edge mode and the holder exclusion, funding and sniper flags.
+ */
+export const parseSnapshotOptionsQuery = (searchParams: URLSearchParams): Required<BuildSnapshotOptions> => {
+  const read = (key: ScanLimitKey): number => {
+    const limit = SCAN_LIMITS[key];
+    return parseLimitParam(searchParams.get(limit.query), appConfig[key], limit.min, limit.max);
+  };
+
+  return normalizeSnapshotOptions({
+    holderLimit: read("holderLimit"),
+    edgeWalletLimit: read("edgeWalletLimit"),
+    txLimit: read("txLimit"),
+    maxSignatures: read("maxSignatures"),
+    sinceHours: read("sinceHours"),
+    sniperSlots: read("sniperSlots"),
+    untilSlot: parseLimitParam(searchParams.get("untilSlot"), 0, 0, Number.MAX_SAFE_INTEGER),
+    edgeMode: parseEdgeCollectionMode(searchParams.get(EDGE_COLLECTION_MODE_QUERY), appConfig.edgeMode),
+    excludeProgramHolders: parseFlagParam(
+      searchParams.get(EXCLUDE_PROGRAM_HOLDERS_QUERY),
+      appConfig.excludeProgramHolders
+    ),
+    metricsExcludeLabeled: parseFlagParam(
+      searchParams.get(METRICS_EXCLUDE_LABELED_QUERY),
+      appConfig.metricsExcludeLabeled
+    ),
+    fundingEdges: parseFlagParam(searchParams.get(FUNDING_EDGES_QUERY), appConfig.fundingEdges),
+    clusterFunding: parseFlagParam(searchParams.get(CLUSTER_FUNDING_QUERY), appConfig.clusterFunding),
+    detectSnipers: parseFlagParam(searchParams.get(DETECT_SNIPERS_QUERY), appConfig.detectSnipers)
+  });
+};
+
+const buildSignatureSources = (
+  mint: string,
+  wallets: string[],
+  tokenAccounts: Map<string, string[]>,
+  edgeMode: EdgeCollectionMode
+): SignatureSources => {
+  if (edgeMode === "wallets") {
+    return { wallets };
+  }
+
+  const accounts = wallets.flatMap((wallet) => tokenAccounts.get(wallet) ?? []);
+  if (edgeMode === "token-accounts-mint") {
+    accounts.push(mint);
+  }
+
+  return { wallets, accounts };
+};
+
+const METRICS_EXCLUDED_LABEL_KINDS = new Set<AddressLabelKind>(["pool", "burn"]);
+
+const measureDistribution = (
+  sortedHolders: Array<[string, bigint]>,
+  labels: Map<string, AddressLabel>,
+  decimals: number,
+  options: Required<BuildSnapshotOptions>
+): DistributionMetrics => {
+  let excludedLabeled = 0;
+  const balances: number[] = [];
+
+  for (const [address, balanceRaw] of sortedHolders) {
+    const kind = labels.get(address)?.kind;
+    if (options.metricsExcludeLabeled && kind && METRICS_EXCLUDED_LABEL_KINDS.has(kind)) {
+      excludedLabeled += balanceRaw > 0n ? 1 : 0;
+      continue;
+    }
+
+    balances.push(toUiAmount(balanceRaw, decimals));
+  }
+
+  return computeDistributionMetrics(balances, excludedLabeled);
+};
+
+// Holdings left out of the circulating supply, checked in this order so no balance is counted twice.
+const measureCirculating = (
+  sortedHolders: Array<[string, bigint]>,
+  labels: Map<string, AddressLabel>,
+  classifications: Map<string, HolderClassification>,
+  supply: number,
+  decimals: number
+): CirculatingSupply => {
+  let burnedRaw = 0n;
+  let lockedRaw = 0n;
+  let programOwnedRaw = 0n;
+
+  for (const [address, balanceRaw] of sortedHolders) {
+    const kind = labels.get(address)?.kind;
+    if (kind === "burn") {
+      burnedRaw += balanceRaw;
+    } else if (kind === "locker") {
+      lockedRaw += balanceRaw;
+    } else if ((classifications.get(address)?.holderKind ?? "wallet") !== "wallet") {
+      programOwnedRaw += balanceRaw;
+    }
+  }
+
+  const burned = toUiAmount(burnedRaw, decimals);
+  const locked = toUiAmount(lockedRaw, decimals);
+  const programOwned = toUiAmount(programOwnedRaw, decimals);
+  const circulatingSupply = Math.max(0, supply - burned - locked - programOwned);
+
+  return {
+    circulatingSupply,
+    pctSupply: toPctSupply(circulatingSupply, supply),
+    burned,
+    locked,
+    programOwned
+  };
+};
+
+// Base58 has no ":", so these can never collide with a holder address.
+const SYNTHETIC_NODE_ADDRESSES: Record<SupplyChangeKind, string> = {
+  mint: "synthetic:mint-authority",
+  burn: "synthetic:burn"
+};
+
+const SYNTHETIC_NODE_LABELS: Record<SupplyChangeKind, AddressLabel> = {
+  mint: { name: "Mint authority", kind: "other" },
+  burn: { name: "Burn", kind: "burn" }
+};
+
+/**
+ * Turns mints into and burns from mapped holders into edges from a synthetic "Mint authority" node and to a synthetic
+ * "Burn" node. Each synthetic node is only returned when it has an edge.
+ */
+const buildSupplyEdges = (
+  events: SupplyEvent[],
+  includedWallets: Set<string>,
+  decimals: number
+): { nodes: SnapshotNode[]; edges: SnapshotEdge[] } => {
+  const totals = new Map<string, { kind: SupplyChangeKind; owner: string; amountRaw: bigint; txCount: number }>();
+
+  for (const event of events) {
+    if (!includedWallets.has(event.owner)) {
+      continue;
+    }
+
+    const key = `${event.kind}:${event.owner}`;
+    const existing = totals.get(key);
+    if (existing) {
+      existing.amountRaw += event.amountRaw;
+      existing.txCount += 1;
+    } else {
+      totals.set(key, { kind: event.kind, owner: event.owner, amountRaw: event.amountRaw, txCount: 1 });
+    }
+  }
+
+  const edges: SnapshotEdge[] = [...totals.values()]
+    .map((total) => ({
+      from: total.kind === "mint" ? SYNTHETIC_NODE_ADDRESSES.mint : total.owner,
+      to: total.kind === "mint" ? total.owner : SYNTHETIC_NODE_ADDRESSES.burn,
+      amountSum: toUiAmount(total.amountRaw, decimals),
+      txCount: total.txCount,
+      kind: total.kind
+    }))
+    .sort((a, b) => b.amountSum - a.amountSum);
+
+  const nodes = (["mint", "burn"] as const)
+    .filter((kind) => edges.some((edge) => edge.kind === kind))
+    .map((kind) => ({
+      address: SYNTHETIC_NODE_ADDRESSES[kind],
+      balance: 0,
+      pctSupply: 0,
+      clusterId: 0,
+      label: SYNTHETIC_NODE_LABELS[kind],
+      synthetic: kind
+    }));
+
+  return { nodes, edges };
+};
+
+// Native GOR, like SOL, has 9 decimals.
+const NATIVE_DECIMALS = 9;
+
+/**
+ * Links holders through the wallet that first funded them. A funder that is itself a mapped holder gets a direct
+ * edge; holders sharing a funder that is not mapped are linked from the earliest funded of them, with `funder` set.
+ */
+const buildFundingEdges = (sources: FundingSource[], includedWallets: Set<string>): SnapshotEdge[] => {
+  const edges: SnapshotEdge[] = [];
+  const byFunder = new Map<string, FundingSource[]>();
+
+  for (const source of sources) {
+    if (includedWallets.has(source.funder)) {
+      edges.push({
+        from: source.funder,
+        to: source.wallet,
+        amountSum: toUiAmount(source.lamports, NATIVE_DECIMALS),
+        txCount: 1,
+        kind: "funding"
+      });
+      continue;
+    }
+
+    byFunder.set(source.funder, [...(byFunder.get(source.funder) ?? []), source]);
+  }
+
+  for (const [funder, funded] of byFunder) {
+    const [first, ...rest] = [...funded].sort((a, b) => (a.blockTime ?? 0) - (b.blockTime ?? 0));
+    for (const source of rest) {
+      edges.push({
+        from: first.wallet,
+        to: source.wallet,
+        amountSum: toUiAmount(source.lamports, NATIVE_DECIMALS),
+        txCount: 1,
+        kind: "funding",
+        funder
+      });
+    }
+  }
+
+  return edges.sort((a, b) => b.amountSum - a.amountSum);
+};
+
+// Classifies holders in balance order. When program holders are excluded it keeps walking down the list until
+// `holderLimit` holders are selected, and returns the skipped ones separately.
+const rankHolders = async (
+  sortedHolders: Array<[string, bigint]>,
+  holderLimit: number,
+  excludeProgramHolders: boolean,
+  diagnostics: DiagnosticsRecorder
+): Promise<{
+  selected: Array<[string, bigint]>;
+  excluded: Array<[string, bigint]>;
+  classifications: Map<string, HolderClassification>;
+}> => {
+  const selected: Array<[string, bigint]> = [];
+  const excluded: Array<[string, bigint]> = [];
+  const classifications = new Map<string, HolderClassification>();
+  let offset = 0;
+
+  while (selected.length < holderLimit && offset < sortedHolders.length) {
+    const batch = sortedHolders.slice(offset, offset + holderLimit - selected.length);
+    offset += batch.length;
+
+    const batchClassifications = await classifyHolders(batch.map(([address]) => address), diagnostics);
+
+    for (const holder of batch) {
+      const classification = batchClassifications.get(holder[0]);
+      if (classification) {
+        classifications.set(holder[0], classification);
+      }
+
+      if (excludeProgramHolders && classification && classification.holderKind !== "wallet") {
+        excluded.push(holder);
+      } else {
+        selected.push(holder);
+      }
+    }
+
+    if (!excludeProgramHolders) {
+      break;
+    }
+  }
+
+  return { selected, excluded, classifications };
+};
+
+// Ranking only classifies as far down the list as it needs to. Circulating supply and the derived pool labels count
+// every holder, so the rest are classified here as well.
+const classifyCountedHolders = async (
+  sortedHolders: Array<[string, bigint]>,
+  classified: Map<string, HolderClassification>,
+  diagnostics: DiagnosticsRecorder
+): Promise<Map<string, HolderClassification>> => {
+  const remaining = sortedHolders
+    .filter(([address, balanceRaw]) => balanceRaw > 0n && !classified.has(address))
+    .map(([address]) => address);
+
+  return new Map([...classified, ...(await classifyHolders(remaining, diagnostics))]);
+};
+
+const buildSnapshotData = async (
   mintAddress: string,
-  options: BuildSnapshotOptions = {}
-): Promise<TokenSnapshot> => {
+  options: BuildSnapshotOptions
+): Promise<Omit<TokenSnapshot, "rpc">> => {
   const normalizedOptions = normalizeSnapshotOptions(options);
   const mint = toPublicKey(mintAddress);
 
   const mintMetadata = await fetchMintMetadata(mint);
-  const holderBalances = await fetchHolderBalancesByOwner(mint, mintMetadata.tokenProgramId);
+  const holderScan = await fetchHolderScan(mint, mintMetadata.tokenProgramId);
+  const sortedHolders = sortHoldersByBalance(holderScan.balances);
+  rememberHolderScan(mint.toBase58(), mintMetadata.supply, mintMetadata.decimals, sortedHolders);
 
-  const sortedHolders = [...holderBalances.entries()].sort((a, b) => {
-    if (a[1] === b[1]) {
-      return 0;
-    }
+  const diagnostics = createDiagnosticsRecorder();
+  const ranking = await rankHolders(
+    sortedHolders,
+    normalizedOptions.holderLimit,
+    normalizedOptions.excludeProgramHolders,
+    diagnostics
+  );
 
-    return a[1] > b[1] ? -1 : 1;
-  });
+  const classifications = await classifyCountedHolders(sortedHolders, ranking.classifications, diagnostics);
+  const labels = labelProgramPools(await loadAddressLabels(), classifications);
+  const distribution = measureDistribution(sortedHolders, labels, mintMetadata.decimals, normalizedOptions);
 
-  const nodes: SnapshotNode[] = sortedHolders.slice(0, normalizedOptions.holderLimit).map(([address, balanceRaw]) => {
+  const nodes: SnapshotNode[] = ranking.selected.map(([address, balanceRaw]) => {
     const balance = toUiAmount(balanceRaw, mintMetadata.decimals);
+    const classification = ranking.classifications.get(address);
 
     return {
       address,
       balance,
-      pctSupply: toPctSupply(balance, mintMetadata.supply)
+      pctSupply: toPctSupply(balance, mintMetadata.supply),
+      clusterId: 0,
+      label: labels.get(address),
+      holderKind: classification?.holderKind,
+      ownerProgram: classification?.ownerProgram
     };
   });
 
+  const excludedBalance = ranking.excluded.reduce((sum, [, balanceRaw]) => sum + balanceRaw, 0n);
+
   const topWalletsForEdges = nodes.slice(0, normalizedOptions.edgeWalletLimit).map((node) => node.address);
-  const transferEvents = await collectTransferEventsForMint(
+  const { events: transferEvents, supplyEvents, txCache } = await collectTransferEventsForMint(
     mint,
-    topWalletsForEdges,
-    normalizedOptions.txLimit,
-    normalizedOptions.maxSignatures
+    buildSignatureSources(mint.toBase58(), topWalletsForEdges, holderScan.tokenAccounts, normalizedOptions.edgeMode),
+    {
+      perAddress: normalizedOptions.txLimit,
+      total: normalizedOptions.maxSignatures,
+      sinceBlockTime:
+        normalizedOptions.sinceHours > 0
+          ? Math.floor((Date.now() - normalizedOptions.sinceHours * 60 * 60 * 1000) / 1000)
+          : 0,
+      untilSlot: normalizedOptions.untilSlot
+    },
+    diagnostics,
+    mintMetadata.transferFees
   );
 
   const includedWallets = new Set(nodes.map((node) => node.address));
-  const edgeMap = new Map<string, { from: string; to: string; amountRaw: bigint; txCount: number }>();
+  const edgeMap = new Map<string, { from: string; to: string; netRaw: bigint; feeRaw: bigint; txCount: number }>();
 
   for (const event of transferEvents) {
     if (!includedWallets.has(event.from) || !includedWallets.has(event.to)) {
@@ -67,13 +415,15 @@ export const buildSnapshot = async (
       edgeMap.set(key, {
         from: event.from,
         to: event.to,
-        amountRaw: event.amountRaw,
+        netRaw: event.netRaw,
+        feeRaw: event.feeRaw,
         txCount: 1
       });
       continue;
     }
 
-    existing.amountRaw += event.amountRaw;
+    existing.netRaw += event.netRaw;
+    existing.feeRaw += event.feeRaw;
     existing.txCount += 1;
   }
 
@@ -82,7 +432,9 @@ export const buildSnapshot = async (
       from: edge.from,
       to: edge.to,
       txCount: edge.txCount,
-      amountSum: toUiAmount(edge.amountRaw, mintMetadata.decimals)
+      amountSum: toUiAmount(edge.netRaw, mintMetadata.decimals),
+      feeSum: edge.feeRaw > 0n ? toUiAmount(edge.feeRaw, mintMetadata.decimals) : undefined,
+      kind: "transfer" as const
     }))
     .sort((a, b) => {
       if (a.amountSum === b.amountSum) {
@@ -92,6 +444,23 @@ export const buildSnapshot = async (
       return b.amountSum - a.amountSum;
     });
 
+  const supply = buildSupplyEdges(supplyEvents, includedWallets, mintMetadata.decimals);
+
+  let fundingEdges: SnapshotEdge[] = [];
+  let fundingTxCache = emptyTxCacheUsage();
+  if (normalizedOptions.fundingEdges) {
+    const funding = await findFundingSources(topWalletsForEdges, appConfig.fundingMaxPages, diagnostics);
+    fundingEdges = buildFundingEdges(funding.sources, includedWallets);
+    fundingTxCache = funding.txCache;
+  }
+
+  const clustered = assignClusters(nodes, normalizedOptions.clusterFunding ? [...edges, ...fundingEdges] : edges);
+
+  const launch = normalizedOptions.detectSnipers
+    ? await scanLaunch(mint.toBase58(), appConfig.sniperMaxPages, appConfig.sniperMaxTransactions, diagnostics)
+    : null;
+  const snipers = launch ? flagSnipers(clustered.nodes, launch, normalizedOptions.sniperSlots) : null;
+
   return {
     mint: mint.toBase58(),
     tokenProgram: mintMetadata.tokenProgram,
@@ -100,8 +469,36 @@ export const buildSnapshot = async (
     tokenUri: mintMetadata.tokenUri,
     supply: mintMetadata.supply,
     decimals: mintMetadata.decimals,
-    nodes,
-    edges,
+    // Synthetic nodes go after the clustering and sniper passes so they never join a cluster or get flagged.
+    nodes: [...(snipers?.nodes ?? clustered.nodes), ...supply.nodes],
+    edges: [...edges, ...supply.edges, ...fundingEdges],
+    clusters: clustered.clusters,
+    diagnostics: diagnostics.finish(),
+    txCache: combineTxCacheUsage(txCache, fundingTxCache, launch?.txCache ?? emptyTxCacheUsage()),
+    distribution,
+    excludedHolders: normalizedOptions.excludeProgramHolders
+      ? {
+          count: ranking.excluded.length,
+          pctSupply: toPctSupply(toUiAmount(excludedBalance, mintMetadata.decimals), mintMetadata.supply)
+        }
+      : undefined,
+    snipers: snipers?.summary,
+    circulating: measureCirculating(
+      sortedHolders,
+      labels,
+      classifications,
+      mintMetadata.supply,
+      mintMetadata.decimals
+    ),
     timestamp: Date.now()
   };
 };
+
+export const buildSnapshot = async (
+  mintAddress: string,
+  options: BuildSnapshotOptions = {}
+): Promise<TokenSnapshot> => {
+  const { result, stats } = await withRpcUsageStats(() => buildSnapshotData(mintAddress, options));
+
+  return { ...result, rpc: stats };
+};
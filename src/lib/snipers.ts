@@ -0,0 +1,159 @@
+import type { ConfirmedSignatureInfo, ParsedTransactionWithMeta, TokenBalance } from "@solana/web3.js";
+import type { DiagnosticsRecorder } from "@/lib/diagnostics";
+import { fetchOldestSignatures, getConnection } from "@/lib/rpc";
+import { emptyTxCacheUsage, fetchParsedTransactionsCached } from "@/lib/tx-cache";
+import type { SnapshotNode, SniperSummary, TxCacheUsage } from "@/lib/types";
+
+export interface LaunchAcquisition {
+  slot: number;
+  blockTime: number | null;
+}
+
+export interface LaunchScan {
+  creationSlot: number;
+  createdAt: number | null;
+  // Earliest slot in which each owner's balance of the mint went up, within the scanned launch transactions.
+  acquisitions: Map<string, LaunchAcquisition>;
+  scannedTransactions: number;
+  txCache: TxCacheUsage;
+}
+
+const sumByOwner = (balances: TokenBalance[] | null | undefined, mint: string): Map<string, bigint> => {
+  const totals = new Map<string, bigint>();
+
+  for (const balance of balances ?? []) {
+    if (balance.mint !== mint || !balance.owner) {
+      continue;
+    }
+
+    totals.set(balance.owner, (totals.get(balance.owner) ?? 0n) + BigInt(balance.uiTokenAmount.amount));
+  }
+
+  return totals;
+};
+
+const recordAcquisitions = (
+  tx: ParsedTransactionWithMeta,
+  mint: string,
+  acquisitions: Map<string, LaunchAcquisition>
+): void => {
+  const before = sumByOwner(tx.meta?.preTokenBalances, mint);
+  const after = sumByOwner(tx.meta?.postTokenBalances, mint);
+
+  for (const [owner, balance] of after) {
+    if (balance > (before.get(owner) ?? 0n) && !acquisitions.has(owner)) {
+      acquisitions.set(owner, { slot: tx.slot, blockTime: tx.blockTime ?? null });
+    }
+  }
+};
+
+/**
+ * Pages the mint back to its first signature, taken as its creation, and records who received the token in the first
+ * `maxTransactions` successful transactions after it. Returns null when the mint has more than `maxPages` pages of
+ * history, which means it is no longer a fresh launch.
+ */
+export const scanLaunch = async (
+  mint: string,
+  maxPages: number,
+  maxTransactions: number,
+  diagnostics?: DiagnosticsRecorder
+): Promise<LaunchScan | null> => {
+  const connection = getConnection();
+
+  let oldest: ConfirmedSignatureInfo[] | null;
+  try {
+    oldest = await fetchOldestSignatures(connection, mint, maxPages);
+    diagnostics?.succeed();
+  } catch (error) {
+    diagnostics?.fail("account", mint, error);
+    return null;
+  }
+
+  const creation = oldest?.[oldest.length - 1];
+  if (!oldest || !creation) {
+    return null;
+  }
+
+  const signatures = oldest
+    .filter((item) => !item.err)
+    .slice(-maxTransactions)
+    .map((item) => item.signature);
+  const { transactions, usage } =
+    signatures.length > 0
+      ? await fetchParsedTransactionsCached(connection, signatures, diagnostics)
+      : { transactions: [], usage: emptyTxCacheUsage() };
+
+  const acquisitions = new Map<string, LaunchAcquisition>();
+  for (const tx of [...transactions].sort((a, b) => a.slot - b.slot)) {
+    recordAcquisitions(tx, mint, acquisitions);
+  }
+
+  return {
+    creationSlot: creation.slot,
+    createdAt: creation.blockTime ? creation.blockTime * 1000 : null,
+    acquisitions,
+    scannedTransactions: transactions.length,
+    txCache: usage
+  };
+};
+
+/**
+ * Tags nodes with their first acquisition and flags snipers: wallets that first received the token within
+ * `windowSlots` of creation, or in the same slot as another current holder. Labeled addresses, PDAs and program-owned
+ * holders such as the bonding curve are tagged but never flagged.
+ */
+export const flagSnipers = (
+  nodes: SnapshotNode[],
+  launch: LaunchScan,
+  windowSlots: number
+): { nodes: SnapshotNode[]; summary: SniperSummary } => {
+  const isCandidate = (node: SnapshotNode): boolean => {
+    return !node.label && (node.holderKind === undefined || node.holderKind === "wallet");
+  };
+
+  const holdersBySlot = new Map<number, number>();
+  for (const node of nodes) {
+    const acquisition = launch.acquisitions.get(node.address);
+    if (acquisition && isCandidate(node)) {
+      holdersBySlot.set(acquisition.slot, (holdersBySlot.get(acquisition.slot) ?? 0) + 1);
+    }
+  }
+
+  let sniperCount = 0;
+  let sniperPctSupply = 0;
+
+  const flagged = nodes.map((node) => {
+    const acquisition = launch.acquisitions.get(node.address);
+    if (!acquisition) {
+      return node;
+    }
+
+    const sniper =
+      isCandidate(node) &&
+      (acquisition.slot - launch.creationSlot <= windowSlots || (holdersBySlot.get(acquisition.slot) ?? 0) > 1);
+    if (sniper) {
+      sniperCount += 1;
+      sniperPctSupply += node.pctSupply;
+    }
+
+    return {
+      ...node,
+      firstAcquiredAt: acquisition.blockTime ? acquisition.blockTime * 1000 : undefined,
+      firstAcquiredSlot: acquisition.slot,
+      sniper
+    };
+  });
+
+  return {
+    nodes: flagged,
+    summary: {
+      creationSlot: launch.creationSlot,
+      createdAt: launch.createdAt,
+      windowSlots,
+      bundledSlots: [...holdersBySlot.values()].filter((count) => count > 1).length,
+      sniperCount,
+      sniperPctSupply,
+      scannedTransactions: launch.scannedTransactions
+    }
+  };
+};
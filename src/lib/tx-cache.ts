@@ -0,0 +1,235 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { type Connection, PublicKey, type ParsedTransactionWithMeta } from "@solana/web3.js";
+import { appConfig } from "@/lib/config";
+import type { DiagnosticsRecorder } from "@/lib/diagnostics";
+import type { TxCacheUsage } from "@/lib/types";
+
+const CHUNK_SIZE = 25;
+const DISK_READ_BATCH = 32;
+
+// Map iteration follows insertion order, so re-inserting on every hit keeps the least recently used entry first.
+const memory = new Map<string, ParsedTransactionWithMeta>();
+
+const rememberInMemory = (signature: string, tx: ParsedTransactionWithMeta): void => {
+  if (appConfig.txCacheMaxEntries === 0) {
+    return;
+  }
+
+  memory.delete(signature);
+  memory.set(signature, tx);
+
+  while (memory.size > appConfig.txCacheMaxEntries) {
+    const oldest = memory.keys().next().value;
+    if (oldest === undefined) {
+      break;
+    }
+
+    memory.delete(oldest);
+  }
+};
+
+const readFromMemory = (signature: string): ParsedTransactionWithMeta | null => {
+  const tx = memory.get(signature);
+  if (!tx) {
+    return null;
+  }
+
+  memory.delete(signature);
+  memory.set(signature, tx);
+  return tx;
+};
+
+// Two-character fan-out keeps directories small once the disk tier holds many thousands of transactions.
+const diskPath = (signature: string): string => {
+  return path.join(appConfig.txCacheDir, signature.slice(0, 2), `${signature}.json`);
+};
+
+const toPublicKey = (value: unknown): PublicKey => {
+  return value instanceof PublicKey ? value : new PublicKey(value as string);
+};
+
+const reviveInstruction = (instruction: Record<string, unknown>): void => {
+  instruction.programId = toPublicKey(instruction.programId);
+  if (Array.isArray(instruction.accounts)) {
+    instruction.accounts = instruction.accounts.map(toPublicKey);
+  }
+};
+
+/**
+ * JSON turns every `PublicKey` into its base58 string; this restores the ones the parsed transaction types promise.
+ */
+const reviveParsedTransaction = (tx: ParsedTransactionWithMeta): ParsedTransactionWithMeta => {
+  const message = tx.transaction.message;
+  for (const account of message.accountKeys) {
+    account.pubkey = toPublicKey(account.pubkey);
+  }
+  for (const instruction of message.instructions) {
+    reviveInstruction(instruction as unknown as Record<string, unknown>);
+  }
+  for (const lookup of message.addressTableLookups ?? []) {
+    lookup.accountKey = toPublicKey(lookup.accountKey);
+  }
+
+  for (const inner of tx.meta?.innerInstructions ?? []) {
+    for (const instruction of inner.instructions) {
+      reviveInstruction(instruction as unknown as Record<string, unknown>);
+    }
+  }
+
+  const loaded = tx.meta?.loadedAddresses;
+  if (loaded) {
+    loaded.writable = loaded.writable.map(toPublicKey);
+    loaded.readonly = loaded.readonly.map(toPublicKey);
+  }
+
+  return tx;
+};
+
+const readFromDisk = async (signature: string): Promise<ParsedTransactionWithMeta | null> => {
+  if (!appConfig.txCacheDir) {
+    return null;
+  }
+
+  try {
+    const raw = await readFile(diskPath(signature), "utf8");
+    return reviveParsedTransaction(JSON.parse(raw) as ParsedTransactionWithMeta);
+  } catch {
+    // Missing or unreadable entries are simply refetched.
+    return null;
+  }
+};
+
+const writeToDisk = async (signature: string, tx: ParsedTransactionWithMeta): Promise<void> => {
+  if (!appConfig.txCacheDir) {
+    return;
+  }
+
+  const filePath = diskPath(signature);
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+
+  try {
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(tempPath, JSON.stringify(tx));
+    await rename(tempPath, filePath);
+  } catch {
+    // The disk tier is best effort; the transaction is still served from memory.
+  }
+};
+
+export const emptyTxCacheUsage = (): TxCacheUsage => ({
+  requested: 0,
+  memoryHits: 0,
+  diskHits: 0,
+  fetched: 0,
+  hitRate: 1
+});
+
+// Sums the usage of several cached fetches made for one scan.
+export const combineTxCacheUsage = (...usages: TxCacheUsage[]): TxCacheUsage => {
+  const total = usages.reduce(
+    (sum, usage) => ({
+      ...sum,
+      requested: sum.requested + usage.requested,
+      memoryHits: sum.memoryHits + usage.memoryHits,
+      diskHits: sum.diskHits + usage.diskHits,
+      fetched: sum.fetched + usage.fetched
+    }),
+    emptyTxCacheUsage()
+  );
+
+  return {
+    ...total,
+    hitRate: total.requested > 0 ? (total.memoryHits + total.diskHits) / total.requested : 1
+  };
+};
+
+/**
+ * Fetches parsed transactions through a signature-keyed cache: memory LRU first, then the optional disk tier
+ * (`TX_CACHE_DIR`), then RPC in chunks of 25. Confirmed transactions never change, so entries never expire. Missing
+ * transactions are not cached, and a failed RPC chunk is recorded in `diagnostics` while the other chunks continue.
+ */
+export const fetchParsedTransactionsCached = async (
+  connection: Connection,
+  signatures: string[],
+  diagnostics?: DiagnosticsRecorder
+): Promise<{ transactions: ParsedTransactionWithMeta[]; usage: TxCacheUsage }> => {
+  const found = new Map<string, ParsedTransactionWithMeta>();
+  let memoryHits = 0;
+  let diskHits = 0;
+
+  const memoryMisses: string[] = [];
+  for (const signature of signatures) {
+    const tx = readFromMemory(signature);
+    if (tx) {
+      found.set(signature, tx);
+      memoryHits += 1;
+    } else {
+      memoryMisses.push(signature);
+    }
+  }
+
+  const misses: string[] = [];
+  for (let i = 0; i < memoryMisses.length; i += DISK_READ_BATCH) {
+    const batch = memoryMisses.slice(i, i + DISK_READ_BATCH);
+    const results = await Promise.all(batch.map(readFromDisk));
+
+    batch.forEach((signature, index) => {
+      const tx = results[index];
+      if (tx) {
+        found.set(signature, tx);
+        rememberInMemory(signature, tx);
+        diskHits += 1;
+      } else {
+        misses.push(signature);
+      }
+    });
+  }
+
+  let fetched = 0;
+
+  for (let i = 0; i < misses.length; i += CHUNK_SIZE) {
+    const chunk = misses.slice(i, i + CHUNK_SIZE);
+
+    try {
+      const transactions = await connection.getParsedTransactions(chunk, {
+        maxSupportedTransactionVersion: 0,
+        commitment: "confirmed"
+      });
+      diagnostics?.succeed();
+
+      const writes: Array<Promise<void>> = [];
+      transactions.forEach((tx, index) => {
+        const signature = chunk[index];
+        if (!tx || !signature) {
+          return;
+        }
+
+        found.set(signature, tx);
+        rememberInMemory(signature, tx);
+        writes.push(writeToDisk(signature, tx));
+        fetched += 1;
+      });
+      await Promise.all(writes);
+    } catch (error) {
+      // Continue with the other chunks; the gap is reported instead of failing the whole scan.
+      diagnostics?.fail("chunk", `uncached transactions ${i + 1}-${i + chunk.length} of ${misses.length}`, error);
+    }
+  }
+
+  const transactions = signatures.flatMap((signature) => {
+    const tx = found.get(signature);
+    return tx ? [tx] : [];
+  });
+
+  return {
+    transactions,
+    usage: {
+      requested: signatures.length,
+      memoryHits,
+      diskHits,
+      fetched,
+      hitRate: signatures.length > 0 ? (memoryHits + diskHits) / signatures.length : 1
+    }
+  };
+};
@@ -1,18 +1,157 @@
+export type AddressLabelKind = "program" | "pool" | "burn" | "locker" | "exchange" | "other";
+
+export interface AddressLabel {
+  name: string;
+  kind: AddressLabelKind;
+}
+
+// `pda` owners are off the ed25519 curve; `program-owned` owners are on-curve accounts owned by a program other than
+// the System Program.
+export type HolderKind = "wallet" | "pda" | "program-owned";
+
 export interface SnapshotNode {
   address: string;
   balance: number;
   pctSupply: number;
+  clusterId: number;
+  label?: AddressLabel;
+  holderKind?: HolderKind;
+  // Program owning the holder account, when it could be resolved.
+  ownerProgram?: string;
+  // First time this holder received the token, when that falls within the scanned launch transactions.
+  firstAcquiredAt?: number;
+  firstAcquiredSlot?: number;
+  sniper?: boolean;
+  // Set on the "Mint authority" and "Burn" nodes that mint and burn edges attach to; they hold no balance.
+  synthetic?: SupplyChangeKind;
 }
 
+export type SupplyChangeKind = "mint" | "burn";
+
+// Missing on edges stored before funding tracing, which are all transfers.
+export type SnapshotEdgeKind = "transfer" | "funding" | SupplyChangeKind;
+
 export interface SnapshotEdge {
   from: string;
   to: string;
+  // Net token amount received for transfer edges, minted or burned for mint and burn edges; native GOR received in the
+  // first funding transfer for funding edges.
   amountSum: number;
   txCount: number;
+  // Token-2022 transfer fees withheld on top of `amountSum`; missing when none were charged.
+  feeSum?: number;
+  kind?: SnapshotEdgeKind;
+  // Set on funding edges between two holders first funded by the same wallet, which is not a mapped holder itself.
+  funder?: string;
+}
+
+export interface HolderCluster {
+  id: number;
+  nodeAddresses: string[];
+  totalPctSupply: number;
+  totalBalance: number;
+  edgeCount: number;
+  transferAmount: number;
 }
 
 export type TokenProgramKind = "spl-token" | "token-2022";
 
+// Authorities and the Token-2022 extensions that let someone other than the holder move, tax or lock tokens.
+export interface MintSecurity {
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+  // Every extension name on the mint, as the RPC parses it (e.g. `transferFeeConfig`).
+  extensions: string[];
+  transferFeeBasisPoints: number | null;
+  permanentDelegate: string | null;
+  transferHookProgram: string | null;
+  nonTransferable: boolean;
+}
+
+export type RiskLevel = "low" | "medium" | "high" | "unknown";
+
+export type RiskFactorKey =
+  | "mintAuthority"
+  | "freezeAuthority"
+  | "transferFee"
+  | "permanentDelegate"
+  | "nonTransferable"
+  | "transferHook"
+  | "top10Concentration"
+  | "largestCluster"
+  | "flaggedWallets";
+
+export interface RiskFactor {
+  key: RiskFactorKey;
+  label: string;
+  points: number;
+  maxPoints: number;
+  level: RiskLevel;
+  explanation: string;
+}
+
+export interface RiskReport {
+  mint: string;
+  // Sum of factor points, capped at 100.
+  score: number;
+  level: RiskLevel;
+  factors: RiskFactor[];
+  security: MintSecurity;
+  // Timestamp of the snapshot the holder factors were measured on.
+  snapshotTimestamp: number;
+  timestamp: number;
+}
+
+export type ScanFailureScope = "wallet" | "account" | "program" | "chunk" | "fingerprint";
+
+export interface ScanFailure {
+  scope: ScanFailureScope;
+  // Wallet, token account, mint or program address, or a label for the chunk of signatures.
+  target: string;
+  message: string;
+}
+
+export interface ScanDiagnostics {
+  attempted: number;
+  succeeded: number;
+  // succeeded / attempted, 1 when nothing had to be fetched.
+  coverage: number;
+  failures: ScanFailure[];
+}
+
+export interface RpcUsageStats {
+  requests: number;
+  retries: number;
+  retriedRequests: number;
+  failedRequests: number;
+}
+
+export interface TxCacheUsage {
+  requested: number;
+  memoryHits: number;
+  diskHits: number;
+  // Transactions fetched over RPC because neither cache tier had them.
+  fetched: number;
+  // (memoryHits + diskHits) / requested, 1 when nothing was requested.
+  hitRate: number;
+}
+
+export interface DistributionMetrics {
+  // Holders with a positive balance that were measured.
+  holderCount: number;
+  // 0 when every holder holds the same amount, approaching 1 when one holder holds everything.
+  gini: number;
+  // Herfindahl-Hirschman index on the usual 0-10000 scale (sum of squared percentage shares).
+  hhi: number;
+  // Fewest holders that together hold at least half of the measured balance.
+  holdersToHalf: number;
+  top10Pct: number;
+  top50Pct: number;
+  top100Pct: number;
+  // Labeled pool and burn holders left out because `metricsExcludeLabeled` was set.
+  excludedLabeled: number;
+}
+
 export interface TokenSnapshot {
   mint: string;
   tokenProgram: TokenProgramKind;
@@ -23,19 +162,125 @@ export interface TokenSnapshot {
   decimals: number;
   nodes: SnapshotNode[];
   edges: SnapshotEdge[];
+  clusters: HolderCluster[];
+  // Missing on snapshots stored before RPC usage and partial results were tracked.
+  rpc?: RpcUsageStats;
+  diagnostics?: ScanDiagnostics;
+  txCache?: TxCacheUsage;
+  // Computed over every holder, not just the ranked nodes.
+  distribution?: DistributionMetrics;
+  // Holders skipped because `excludeProgramHolders` was set.
+  excludedHolders?: {
+    count: number;
+    pctSupply: number;
+  };
+  // Missing when sniper detection is off or the mint's history is too long to page back to its creation.
+  snipers?: SniperSummary;
+  circulating?: CirculatingSupply;
   timestamp: number;
 }
 
+// Supply minus holdings that cannot trade, over every holder: burned and locked balances come from `burn` and `locker`
+// labels, program-owned balances from PDA and program-owned holders.
+export interface CirculatingSupply {
+  circulatingSupply: number;
+  pctSupply: number;
+  burned: number;
+  locked: number;
+  programOwned: number;
+}
+
+export interface SniperSummary {
+  creationSlot: number;
+  createdAt: number | null;
+  // Holders first acquiring within this many slots of creation are flagged.
+  windowSlots: number;
+  // Slots in which two or more current holders first acquired the token.
+  bundledSlots: number;
+  sniperCount: number;
+  sniperPctSupply: number;
+  scannedTransactions: number;
+}
+
+export interface BalanceBucket {
+  label: string;
+  // Upper bound of the bucket as a percentage of supply; `null` for the open-ended top bucket.
+  maxPctSupply: number | null;
+  holderCount: number;
+  pctSupply: number;
+}
+
+export interface HolderListEntry {
+  rank: number;
+  address: string;
+  balance: number;
+  pctSupply: number;
+  label?: AddressLabel;
+}
+
+export interface HolderListPage {
+  mint: string;
+  supply: number;
+  decimals: number;
+  // Every holder with a positive balance, and how many of them pass `minBalance`.
+  holderCount: number;
+  matchingCount: number;
+  offset: number;
+  limit: number;
+  minBalance: number;
+  holders: HolderListEntry[];
+  // Always over every holder, regardless of `minBalance`.
+  histogram: BalanceBucket[];
+  scannedAt: number;
+}
+
+// Which addresses are paged for transfer signatures: holder wallets only, plus their token accounts, plus the mint.
+export type EdgeCollectionMode = "wallets" | "token-accounts" | "token-accounts-mint";
+
 export interface BuildSnapshotOptions {
   holderLimit?: number;
   edgeWalletLimit?: number;
   txLimit?: number;
   maxSignatures?: number;
+  // Only page back this many hours, and no further than this slot; 0 leaves the bound open.
+  sinceHours?: number;
+  untilSlot?: number;
+  edgeMode?: EdgeCollectionMode;
+  // Leave PDA and program-owned holders out of the ranked nodes, and so out of cluster shares.
+  excludeProgramHolders?: boolean;
+  // Compute distribution metrics without holders labeled as pools or burn addresses.
+  metricsExcludeLabeled?: boolean;
+  // Trace the wallet that first funded each edge wallet with native GOR, and let those links shape clusters.
+  fundingEdges?: boolean;
+  clusterFunding?: boolean;
+  // Flag holders whose first acquisition was within `sniperSlots` of mint creation or bundled in one slot.
+  detectSnipers?: boolean;
+  sniperSlots?: number;
+}
+
+// First native GOR transfer into `wallet` from another account, found by paging back to its oldest signatures.
+export interface FundingSource {
+  wallet: string;
+  funder: string;
+  lamports: bigint;
+  signature: string;
+  blockTime: number | null;
 }
 
 export interface TransferEvent {
   from: string;
   to: string;
+  // Amount sent; Token-2022 transfer fees are withheld in the receiving account, so `to` only gets `netRaw`.
+  grossRaw: bigint;
+  feeRaw: bigint;
+  netRaw: bigint;
+  signature: string;
+}
+
+// `mintTo` into, or `burn` from, a token account owned by `owner`.
+export interface SupplyEvent {
+  kind: SupplyChangeKind;
+  owner: string;
   amountRaw: bigint;
   signature: string;
 }
@@ -44,3 +289,76 @@ export interface LiveOptions extends BuildSnapshotOptions {
   pollIntervalMs?: number;
   forceRefreshMs?: number;
 }
+
+export type NodeChangeKind = "entered" | "exited" | "accumulated" | "reduced";
+
+// A side is null when the holder was not among that snapshot's mapped holders, so its balance there is unknown.
+export interface SnapshotNodeChange {
+  address: string;
+  kind: NodeChangeKind;
+  balanceBefore: number | null;
+  balanceAfter: number | null;
+  balanceDelta: number | null;
+  pctSupplyBefore: number | null;
+  pctSupplyAfter: number | null;
+  pctSupplyDelta: number | null;
+}
+
+export type EdgeChangeKind = "added" | "removed" | "updated";
+
+export interface SnapshotEdgeChange {
+  from: string;
+  to: string;
+  edgeKind?: SnapshotEdgeKind;
+  kind: EdgeChangeKind;
+  amountSumBefore: number;
+  amountSumAfter: number;
+  txCountBefore: number;
+  txCountAfter: number;
+}
+
+export interface SnapshotClusterChange {
+  clusterId: number;
+  nodeAddresses: string[];
+  pctSupplyBefore: number;
+  pctSupplyAfter: number;
+  pctSupplyDelta: number;
+}
+
+export interface SnapshotDiff {
+  mint: string;
+  fromTimestamp: number;
+  toTimestamp: number;
+  topN: number;
+  entered: string[];
+  exited: string[];
+  nodes: SnapshotNodeChange[];
+  edges: SnapshotEdgeChange[];
+  clusters: SnapshotClusterChange[];
+}
+
+export interface LivePatch {
+  mint: string;
+  sequence: number;
+  baseSequence: number;
+  timestamp: number;
+  supply: number;
+  nodes: {
+    added: SnapshotNode[];
+    removed: string[];
+    rebalanced: SnapshotNode[];
+  };
+  edges: {
+    added: SnapshotEdge[];
+    updated: SnapshotEdge[];
+    removed: Array<Pick<SnapshotEdge, "from" | "to" | "kind">>;
+  };
+  clusters: HolderCluster[];
+  rpc?: RpcUsageStats;
+  diagnostics?: ScanDiagnostics;
+  txCache?: TxCacheUsage;
+  distribution?: DistributionMetrics;
+  excludedHolders?: TokenSnapshot["excludedHolders"];
+  snipers?: SniperSummary;
+  circulating?: CirculatingSupply;
+}
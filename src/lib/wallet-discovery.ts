@@ -0,0 +1,318 @@
+import { PublicKey } from "@solana/web3.js";
+
+// Browser-only wallet discovery for the access gate: Wallet Standard registrations plus legacy injected providers.
+
+export interface LegacyWalletProvider {
+  isConnected?: boolean;
+  isBackpack?: boolean;
+  isPhantom?: boolean;
+  isSolflare?: boolean;
+  name?: string;
+  providers?: LegacyWalletProvider[];
+  publicKey?: PublicKey | null;
+  connect: () => Promise<{ publicKey?: PublicKey } | void>;
+  disconnect?: () => Promise<void>;
+  signMessage?: (message: Uint8Array, display?: "utf8" | "hex") => Promise<{ signature: Uint8Array } | Uint8Array>;
+  on?: (event: string, handler: (...args: unknown[]) => void) => void;
+  off?: (event: string, handler: (...args: unknown[]) => void) => void;
+}
+
+interface StandardWalletAccount {
+  address: string;
+  publicKey: Uint8Array;
+  chains: readonly string[];
+}
+
+interface StandardWallet {
+  name: string;
+  icon?: string;
+  chains: readonly string[];
+  accounts: readonly StandardWalletAccount[];
+  features: Record<string, unknown>;
+}
+
+interface StandardConnectFeature {
+  connect: (input?: { silent?: boolean }) => Promise<{ accounts: readonly StandardWalletAccount[] }>;
+}
+
+interface StandardDisconnectFeature {
+  disconnect: () => Promise<void>;
+}
+
+interface StandardEventsFeature {
+  on: (event: "change", listener: (properties: { accounts?: readonly StandardWalletAccount[] }) => void) => () => void;
+}
+
+interface SolanaSignMessageFeature {
+  signMessage: (
+    ...inputs: Array<{ account: StandardWalletAccount; message: Uint8Array }>
+  ) => Promise<ReadonlyArray<{ signedMessage: Uint8Array; signature: Uint8Array }>>;
+}
+
+interface WalletRegistryApi {
+  register: (...wallets: StandardWallet[]) => () => void;
+}
+
+export interface GateWallet {
+  id: string;
+  name: string;
+  icon: string | null;
+  getConnectedKey: () => PublicKey | null;
+  connect: () => Promise<PublicKey>;
+  disconnect: () => Promise<void>;
+  signMessage: (message: Uint8Array) => Promise<Uint8Array>;
+  subscribe: (onAccountChanged: (next: PublicKey | null) => void, onDisconnect: () => void) => () => void;
+}
+
+declare global {
+  interface Window {
+    solana?: LegacyWalletProvider;
+    backpack?: {
+      solana?: LegacyWalletProvider;
+    };
+    phantom?: {
+      solana?: LegacyWalletProvider;
+    };
+    solflare?: LegacyWalletProvider;
+  }
+}
+
+const LAST_WALLET_STORAGE_KEY = "bb-tools:last-wallet";
+
+const normalizeWalletName = (name: string): string => name.trim().toLowerCase();
+
+const isSolanaStandardWallet = (wallet: StandardWallet): boolean => {
+  return (
+    wallet.chains.some((chain) => chain.startsWith("solana:")) &&
+    "standard:connect" in wallet.features &&
+    "solana:signMessage" in wallet.features
+  );
+};
+
+const toStandardGateWallet = (wallet: StandardWallet): GateWallet => {
+  const connectFeature = wallet.features["standard:connect"] as StandardConnectFeature;
+  const disconnectFeature = wallet.features["standard:disconnect"] as StandardDisconnectFeature | undefined;
+  const eventsFeature = wallet.features["standard:events"] as StandardEventsFeature | undefined;
+  const signMessageFeature = wallet.features["solana:signMessage"] as SolanaSignMessageFeature;
+
+  const firstAccount = (): StandardWalletAccount | null => wallet.accounts[0] ?? null;
+
+  return {
+    id: `standard:${normalizeWalletName(wallet.name)}`,
+    name: wallet.name,
+    icon: wallet.icon ?? null,
+    getConnectedKey: () => {
+      const account = firstAccount();
+      return account ? new PublicKey(account.publicKey) : null;
+    },
+    connect: async () => {
+      const result = await connectFeature.connect();
+      const account = result.accounts[0] ?? firstAccount();
+      if (!account) {
+        throw new Error("Wallet connected, but no account was returned.");
+      }
+
+      return new PublicKey(account.publicKey);
+    },
+    disconnect: async () => {
+      await disconnectFeature?.disconnect();
+    },
+    signMessage: async (message) => {
+      const account = firstAccount();
+      if (!account) {
+        throw new Error("Connect the wallet before signing.");
+      }
+
+      const [result] = await signMessageFeature.signMessage({ account, message });
+      if (!result) {
+        throw new Error("Wallet returned no signature.");
+      }
+
+      return result.signature;
+    },
+    subscribe: (onAccountChanged, onDisconnect) => {
+      if (!eventsFeature) {
+        return () => undefined;
+      }
+
+      return eventsFeature.on("change", ({ accounts }) => {
+        if (!accounts) {
+          return;
+        }
+
+        const account = accounts[0];
+        if (!account) {
+          onDisconnect();
+          return;
+        }
+
+        onAccountChanged(new PublicKey(account.publicKey));
+      });
+    }
+  };
+};
+
+const resolveLegacyName = (provider: LegacyWalletProvider): string => {
+  if (provider.isBackpack) {
+    return "Backpack";
+  }
+
+  if (provider.isPhantom) {
+    return "Phantom";
+  }
+
+  if (provider.isSolflare) {
+    return "Solflare";
+  }
+
+  return provider.name?.trim() || "Injected wallet";
+};
+
+const toLegacyGateWallet = (provider: LegacyWalletProvider): GateWallet => {
+  const name = resolveLegacyName(provider);
+
+  return {
+    id: `legacy:${normalizeWalletName(name)}`,
+    name,
+    icon: null,
+    getConnectedKey: () => (provider.isConnected && provider.publicKey ? provider.publicKey : null),
+    connect: async () => {
+      const result = await provider.connect();
+      const connected = result?.publicKey ?? provider.publicKey;
+      if (!connected) {
+        throw new Error("Wallet connected, but no public key was returned.");
+      }
+
+      return connected;
+    },
+    disconnect: async () => {
+      await provider.disconnect?.();
+    },
+    signMessage: async (message) => {
+      if (!provider.signMessage) {
+        throw new Error("This wallet does not support message signing.");
+      }
+
+      const signed = await provider.signMessage(message, "utf8");
+      return signed instanceof Uint8Array ? signed : signed.signature;
+    },
+    subscribe: (onAccountChanged, onDisconnect) => {
+      const handleAccountChanged = (...args: unknown[]): void => {
+        const next = args[0];
+        onAccountChanged(next instanceof PublicKey ? next : null);
+      };
+
+      provider.on?.("accountChanged", handleAccountChanged);
+      provider.on?.("disconnect", onDisconnect);
+
+      return () => {
+        provider.off?.("accountChanged", handleAccountChanged);
+        provider.off?.("disconnect", onDisconnect);
+      };
+    }
+  };
+};
+
+const collectLegacyProviders = (): LegacyWalletProvider[] => {
+  const candidates: Array<LegacyWalletProvider | undefined> = [
+    window.backpack?.solana,
+    window.phantom?.solana,
+    window.solflare,
+    ...(Array.isArray(window.solana?.providers) ? window.solana.providers : []),
+    window.solana
+  ];
+
+  const providers: LegacyWalletProvider[] = [];
+  for (const candidate of candidates) {
+    if (candidate && typeof candidate.connect === "function" && !providers.includes(candidate)) {
+      providers.push(candidate);
+    }
+  }
+
+  return providers;
+};
+
+/**
+ * Watches for wallets and reports the full list whenever it changes. Wallet Standard wallets win over a legacy
+ * provider with the same name, since most wallets inject both.
+ */
+export const discoverWallets = (onChange: (wallets: GateWallet[]) => void): (() => void) => {
+  if (typeof window === "undefined") {
+    return () => undefined;
+  }
+
+  const standardWallets = new Set<StandardWallet>();
+
+  const emit = (): void => {
+    const wallets = [...standardWallets].filter(isSolanaStandardWallet).map(toStandardGateWallet);
+    const standardNames = new Set(wallets.map((wallet) => normalizeWalletName(wallet.name)));
+
+    for (const provider of collectLegacyProviders()) {
+      const legacyWallet = toLegacyGateWallet(provider);
+      if (standardNames.has(normalizeWalletName(legacyWallet.name))) {
+        continue;
+      }
+
+      if (!wallets.some((wallet) => wallet.id === legacyWallet.id)) {
+        wallets.push(legacyWallet);
+      }
+    }
+
+    onChange(wallets);
+  };
+
+  const api: WalletRegistryApi = {
+    register: (...wallets) => {
+      for (const wallet of wallets) {
+        standardWallets.add(wallet);
+      }
+
+      emit();
+
+      return () => {
+        for (const wallet of wallets) {
+          standardWallets.delete(wallet);
+        }
+
+        emit();
+      };
+    }
+  };
+
+  const handleRegisterWallet = (event: Event): void => {
+    const callback = (event as CustomEvent<(registry: WalletRegistryApi) => void>).detail;
+    if (typeof callback === "function") {
+      callback(api);
+    }
+  };
+
+  window.addEventListener("wallet-standard:register-wallet", handleRegisterWallet);
+  window.dispatchEvent(new CustomEvent("wallet-standard:app-ready", { detail: api }));
+  window.addEventListener("load", emit);
+  emit();
+
+  return () => {
+    window.removeEventListener("wallet-standard:register-wallet", handleRegisterWallet);
+    window.removeEventListener("load", emit);
+  };
+};
+
+export const readLastWalletId = (): string | null => {
+  try {
+    return window.localStorage.getItem(LAST_WALLET_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const rememberWalletId = (walletId: string | null): void => {
+  try {
+    if (walletId) {
+      window.localStorage.setItem(LAST_WALLET_STORAGE_KEY, walletId);
+    } else {
+      window.localStorage.removeItem(LAST_WALLET_STORAGE_KEY);
+    }
+  } catch {
+    // Storage can be unavailable in private windows; the picker just won't preselect.
+  }
+};
@@ -0,0 +1,26 @@
+import { createPublicKey, verify } from "node:crypto";
+import { PublicKey } from "@solana/web3.js";
+
+// DER prefix for an ed25519 SubjectPublicKeyInfo; the raw 32-byte key follows it.
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+
+export const verifyWalletSignature = (wallet: string, message: string, signature: Uint8Array): boolean => {
+  if (signature.length !== 64) {
+    return false;
+  }
+
+  let walletBytes: Buffer;
+  try {
+    walletBytes = new PublicKey(wallet).toBuffer();
+  } catch {
+    return false;
+  }
+
+  const publicKey = createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, walletBytes]),
+    format: "der",
+    type: "spki"
+  });
+
+  return verify(null, Buffer.from(message, "utf8"), publicKey, signature);
+};